@@ -21,3 +21,22 @@ const plugin = {
 };
 
 export default plugin;
+
+// Other plugins can add WeCom slash commands; they appear in /help automatically.
+export { registerWecomCommand } from "./src/command-registry.js";
+export type { WecomCommandDefinition, WecomCommandInvocation } from "./src/command-registry.js";
+
+// Other plugins can replace the state store (e.g. Redis shared by several gateways).
+export { setWecomStateStore } from "./src/state-store.js";
+export type { WecomStateSetOptions, WecomStateStore } from "./src/state-store.js";
+
+// Offline testing: a local cgi-bin simulator and a driver that posts encrypted callbacks.
+export { startWecomSimulator } from "./src/simulator.js";
+export type { WecomSimulator, WecomSimulatorMessage, WecomSimulatorOptions } from "./src/simulator.js";
+export { createWecomCallbackDriver } from "./src/simulator-driver.js";
+export type {
+  WecomBotCallbackResult,
+  WecomBotReply,
+  WecomCallbackDriver,
+  WecomCallbackDriverOptions,
+} from "./src/simulator-driver.js";
@@ -0,0 +1,160 @@
+import { resolveWecomCommand } from "./command-registry.js";
+import {
+  getWecomDirectoryRevision,
+  listWecomTagMembers,
+  resolveWecomTagId,
+  resolveWecomUserDepartmentIds,
+} from "./directory.js";
+import type { ResolvedWecomAccount, WecomCommandPermission } from "./types.js";
+
+// Department / tag decisions are cached per (user, rule set) until the TTL expires or a
+// change_contact event bumps the directory revision.
+const PRINCIPAL_CACHE_TTL_MS = 5 * 60 * 1000;
+const PRINCIPAL_CACHE_MAX = 5000;
+const principalCache = new Map<string, { allowed: boolean; revision: number; checkedAt: number }>();
+
+export type WecomAccessDecision = {
+  allowed: boolean;
+  permission: WecomCommandPermission;
+  /** Shown to the user when access is denied. */
+  reason?: string;
+};
+
+/**
+ * Canonical name of a command ("/帮助" -> "/help"); unknown commands are returned lowercased.
+ */
+export function normalizeWecomCommandKey(command: string, account?: ResolvedWecomAccount): string {
+  const key = command.trim().split(/\s+/)[0]?.toLowerCase() ?? "";
+  return resolveWecomCommand(key, account)?.name ?? key;
+}
+
+/**
+ * `commands.permissions` first, then the command's own default (admin for commands that
+ * read or change server / corp state), otherwise everyone.
+ */
+export function resolveWecomCommandPermission(account: ResolvedWecomAccount, command: string): WecomCommandPermission {
+  const key = normalizeWecomCommandKey(command, account);
+  const configured = account.config.commands?.permissions ?? {};
+  const lowered = Object.fromEntries(Object.entries(configured).map(([name, value]) => [name.toLowerCase(), value]));
+  return lowered[key] ?? lowered[key.replace(/^\//, "")] ?? resolveWecomCommand(key, account)?.permission ?? "everyone";
+}
+
+type PrincipalEntry =
+  | { kind: "any" }
+  | { kind: "user"; id: string }
+  | { kind: "dept"; id: number }
+  | { kind: "tag"; id: string }
+  | { kind: "corp"; id: string };
+
+function parsePrincipal(raw: string | number): PrincipalEntry | null {
+  const value = String(raw).trim();
+  if (!value) return null;
+  if (value === "*") return { kind: "any" };
+  const match = value.match(/^(user|userid|dept|department|party|tag|corp|corpid):(.+)$/i);
+  if (!match) return { kind: "user", id: value.toLowerCase() };
+  const prefix = match[1]!.toLowerCase();
+  const id = match[2]!.trim();
+  if (prefix === "tag") return { kind: "tag", id };
+  if (prefix === "corp" || prefix === "corpid") return { kind: "corp", id: id.toLowerCase() };
+  if (prefix === "user" || prefix === "userid") return { kind: "user", id: id.toLowerCase() };
+  const deptId = Number(id);
+  return Number.isFinite(deptId) ? { kind: "dept", id: deptId } : null;
+}
+
+async function matchesDirectoryRules(params: {
+  account: ResolvedWecomAccount;
+  userId: string;
+  deptRules: number[];
+  tagRules: string[];
+  log?: (message: string) => void;
+}): Promise<{ allowed: boolean; complete: boolean }> {
+  const { account, userId, deptRules, tagRules, log } = params;
+  const sender = userId.trim().toLowerCase();
+  const departmentIds = await resolveWecomUserDepartmentIds({ account, userId, log });
+  if (deptRules.some((id) => departmentIds.includes(id))) return { allowed: true, complete: true };
+  let complete = true;
+  for (const tag of tagRules) {
+    try {
+      const tagId = await resolveWecomTagId({ account, tag });
+      if (tagId === null) {
+        log?.(`[wecom] unknown tag in allowlist: tag:${tag}`);
+        continue;
+      }
+      const members = await listWecomTagMembers({ account, tagId });
+      if (members.userIds.some((id) => id.toLowerCase() === sender)) return { allowed: true, complete: true };
+      if (members.partyIds.some((id) => departmentIds.includes(id))) return { allowed: true, complete: true };
+    } catch (err) {
+      complete = false;
+      log?.(`[wecom] tag lookup failed for tag:${tag}: ${String(err)}`);
+    }
+  }
+  return { allowed: false, complete };
+}
+
+/**
+ * True when `userId` matches one of `entries`: a userid, `dept:<id>` (the department or any
+ * sub-department), `tag:<id|name>` (direct tag members or members of a tagged department),
+ * `corp:<corpid>` (anyone in this account's corp) or `*`. Department and tag rules need the
+ * contact directory; lookup failures count as no match.
+ */
+export async function matchesWecomPrincipal(params: {
+  account: ResolvedWecomAccount;
+  userId: string;
+  entries: Array<string | number>;
+  log?: (message: string) => void;
+}): Promise<boolean> {
+  const { account, userId, log } = params;
+  const principals = params.entries.map(parsePrincipal).filter((entry): entry is PrincipalEntry => Boolean(entry));
+  const sender = userId.trim().toLowerCase();
+  if (!sender) return false;
+  if (principals.some((entry) => entry.kind === "any" || (entry.kind === "user" && entry.id === sender))) {
+    return true;
+  }
+  // Callbacks are decrypted with this account's keys, so every sender belongs to its corp.
+  const corpId = account.corpId?.trim().toLowerCase();
+  if (corpId && principals.some((entry) => entry.kind === "corp" && entry.id === corpId)) return true;
+
+  const deptRules = principals.flatMap((entry) => (entry.kind === "dept" ? [entry.id] : []));
+  const tagRules = principals.flatMap((entry) => (entry.kind === "tag" ? [entry.id] : []));
+  if (deptRules.length === 0 && tagRules.length === 0) return false;
+
+  const key = `${account.corpId ?? ""}|${sender}|${deptRules.join(",")}|${tagRules.join(",")}`;
+  const revision = getWecomDirectoryRevision(account);
+  const cached = principalCache.get(key);
+  if (cached && cached.revision === revision && Date.now() - cached.checkedAt < PRINCIPAL_CACHE_TTL_MS) {
+    return cached.allowed;
+  }
+  const result = await matchesDirectoryRules({ account, userId, deptRules, tagRules, log });
+  if (result.complete) {
+    if (principalCache.size >= PRINCIPAL_CACHE_MAX) principalCache.clear();
+    principalCache.set(key, { allowed: result.allowed, revision, checkedAt: Date.now() });
+  }
+  return result.allowed;
+}
+
+export async function isWecomAdmin(params: {
+  account: ResolvedWecomAccount;
+  userId: string;
+  log?: (message: string) => void;
+}): Promise<boolean> {
+  const entries = params.account.config.admins ?? [];
+  if (entries.length === 0) return false;
+  return await matchesWecomPrincipal({ ...params, entries });
+}
+
+export async function checkWecomCommandAccess(params: {
+  account: ResolvedWecomAccount;
+  userId: string;
+  command: string;
+  log?: (message: string) => void;
+}): Promise<WecomAccessDecision> {
+  const { account, userId, command, log } = params;
+  const permission = resolveWecomCommandPermission(account, command);
+  if (permission === "everyone") return { allowed: true, permission };
+  if (permission === "disabled") return { allowed: false, permission, reason: "该命令已被禁用。" };
+  if (await isWecomAdmin({ account, userId, log })) return { allowed: true, permission };
+  const reason = (account.config.admins ?? []).length === 0
+    ? "该操作需要管理员权限（尚未配置 admins）。"
+    : "该操作需要管理员权限。";
+  return { allowed: false, permission, reason };
+}
@@ -0,0 +1,207 @@
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import type { ChannelMessageActionAdapter, ChannelMessageActionName, ClawdbotConfig } from "openclaw/plugin-sdk";
+import { jsonResult, readStringParam } from "openclaw/plugin-sdk";
+
+import { checkWecomCommandAccess, isWecomAdmin } from "./access.js";
+import { listEnabledWecomAccounts } from "./accounts.js";
+import {
+  createWecomGroupChat,
+  getWecomGroupChatInfo,
+  listWecomGroupChats,
+  updateWecomGroupChat,
+} from "./group-chat.js";
+import { buildWecomConversation, findWecomSentMessage } from "./message-store.js";
+import { parseWecomOutboundTarget, recallWecomSentMessage, resolveWecomOutboundAccount } from "./outbound.js";
+import type { ResolvedWecomAccount } from "./types.js";
+
+const GROUP_MANAGEMENT_ACTIONS = new Set(["channel-create", "addParticipant", "removeParticipant", "renameGroup"]);
+
+type ActionRequester = {
+  /** Set in direct chats only; a group chat does not tell who asked. */
+  userId?: string;
+  chatId?: string;
+};
+
+function hasAppAccount(cfg: ClawdbotConfig): boolean {
+  return listEnabledWecomAccounts(cfg).some((account) =>
+    Boolean(account.corpId && account.corpSecret && account.agentId),
+  );
+}
+
+/**
+ * Reads an array param, or a string separated by `,` / `|`.
+ */
+function readStringListParam(params: Record<string, unknown>, ...keys: string[]): string[] {
+  for (const key of keys) {
+    const raw = params[key];
+    const values = Array.isArray(raw)
+      ? raw.filter((entry): entry is string => typeof entry === "string")
+      : typeof raw === "string"
+        ? raw.split(/[,|]/)
+        : [];
+    const list = values.map((entry) => entry.trim()).filter(Boolean);
+    if (list.length > 0) return list;
+  }
+  return [];
+}
+
+/**
+ * The WeCom chat the agent is answering in (see `threading.buildToolContext`); empty when
+ * the action does not come from a WeCom conversation.
+ */
+function resolveActionRequester(toolContext?: { currentChannelId?: string; currentChannelProvider?: string }): ActionRequester {
+  if (toolContext?.currentChannelProvider && toolContext.currentChannelProvider !== "wecom") return {};
+  const target = toolContext?.currentChannelId ? parseWecomOutboundTarget(toolContext.currentChannelId) : null;
+  if (target?.kind === "user") return { userId: target.id };
+  if (target?.kind === "group") return { chatId: target.id };
+  return {};
+}
+
+async function appendOperationLog(account: ResolvedWecomAccount, entry: Record<string, unknown>): Promise<void> {
+  const logPath = account.config.operations?.logPath?.trim();
+  if (!logPath) return;
+  try {
+    await mkdir(dirname(logPath), { recursive: true });
+    await appendFile(logPath, `${JSON.stringify({ ts: new Date().toISOString(), ...entry })}\n`);
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * Group management actions follow the `/group` permission (admin by default). Without a
+ * known requester only an `everyone` permission lets them through.
+ */
+async function ensureGroupActionAllowed(
+  account: ResolvedWecomAccount,
+  action: string,
+  requester: ActionRequester,
+): Promise<void> {
+  const decision = await checkWecomCommandAccess({ account, userId: requester.userId ?? "", command: "/group" });
+  if (decision.allowed) return;
+  await appendOperationLog(account, {
+    action: "denied",
+    accountId: account.accountId,
+    command: "/group",
+    messageAction: action,
+    permission: decision.permission,
+    toUser: requester.userId,
+    chatId: requester.chatId,
+  });
+  throw new Error(`WeCom ${action} denied: ${decision.reason ?? "the /group permission is required."}`);
+}
+
+/**
+ * Like `/recall <id>`: messages the app sent into the current conversation, or any id
+ * (including raw WeCom msgids) for an admin.
+ */
+async function ensureUnsendAllowed(account: ResolvedWecomAccount, messageId: string, requester: ActionRequester): Promise<void> {
+  const entry = findWecomSentMessage(account.accountId, messageId);
+  const conversation = requester.userId || requester.chatId
+    ? buildWecomConversation({ toUser: requester.userId, chatId: requester.chatId })
+    : undefined;
+  if (entry && entry.conversation === conversation) return;
+  if (requester.userId && (await isWecomAdmin({ account, userId: requester.userId }))) return;
+  await appendOperationLog(account, {
+    action: "denied",
+    accountId: account.accountId,
+    command: "/recall",
+    messageAction: "unsend",
+    messageId,
+    toUser: requester.userId,
+    chatId: requester.chatId,
+  });
+  throw new Error(
+    `WeCom unsend denied: only messages the app sent into the current conversation can be recalled (message ${messageId}); other ids need an admin.`,
+  );
+}
+
+function readChatParam(params: Record<string, unknown>, action: string): string {
+  const chat = readStringParam(params, "chatId") ?? readStringParam(params, "groupId") ?? readStringParam(params, "to");
+  if (!chat?.trim()) {
+    throw new Error(`WeCom ${action} requires chatId (chatid or group name).`);
+  }
+  return chat.trim();
+}
+
+export const wecomMessageActions: ChannelMessageActionAdapter = {
+  listActions: ({ cfg }) => {
+    if (!hasAppAccount(cfg as ClawdbotConfig)) return [];
+    const actions: ChannelMessageActionName[] = [
+      "unsend",
+      "channel-create",
+      "channel-info",
+      "channel-list",
+      "addParticipant",
+      "removeParticipant",
+      "renameGroup",
+    ];
+    return actions;
+  },
+  handleAction: async ({ action, params, cfg, accountId, toolContext }) => {
+    const account = resolveWecomOutboundAccount(cfg as ClawdbotConfig, accountId);
+    const requester = resolveActionRequester(toolContext);
+    if (GROUP_MANAGEMENT_ACTIONS.has(action)) {
+      await ensureGroupActionAllowed(account, action, requester);
+    }
+
+    if (action === "unsend") {
+      const messageId = readStringParam(params, "messageId", { required: true });
+      await ensureUnsendAllowed(account, messageId, requester);
+      const result = await recallWecomSentMessage({ account, messageId });
+      if (result.recalled.length === 0) {
+        throw new Error(`WeCom recall failed: ${result.failed.map((item) => item.error).join("; ")}`);
+      }
+      return jsonResult({ ok: result.failed.length === 0, ...result });
+    }
+
+    if (action === "channel-create") {
+      const name = readStringParam(params, "name", { required: true });
+      const members = readStringListParam(params, "members", "participants", "userIds");
+      if (members.length === 0) {
+        throw new Error("WeCom channel-create requires members (userids, names, emails or mobiles).");
+      }
+      const owner = readStringParam(params, "owner");
+      const entry = await createWecomGroupChat({ account, name, members, owner });
+      return jsonResult({ ok: true, chatId: entry.chatId, name: entry.name, owner: entry.owner, members: entry.members });
+    }
+
+    if (action === "channel-info") {
+      const info = await getWecomGroupChatInfo({ account, chat: readChatParam(params, action) });
+      return jsonResult({ ok: true, chatId: info.chatid, name: info.name, owner: info.owner, members: info.userlist });
+    }
+
+    if (action === "channel-list") {
+      const chats = await listWecomGroupChats(account);
+      return jsonResult({
+        ok: true,
+        chats: chats.map((chat) => ({ chatId: chat.chatId, name: chat.name, source: chat.source })),
+      });
+    }
+
+    if (action === "addParticipant" || action === "removeParticipant") {
+      const chat = readChatParam(params, action);
+      const members = readStringListParam(params, "participant", "participants", "address", "members");
+      if (members.length === 0) {
+        throw new Error(`WeCom ${action} requires participant.`);
+      }
+      const entry = action === "addParticipant"
+        ? await updateWecomGroupChat({ account, chat, addMembers: members })
+        : await updateWecomGroupChat({ account, chat, removeMembers: members });
+      return jsonResult({ ok: true, chatId: entry.chatId, [action === "addParticipant" ? "added" : "removed"]: members });
+    }
+
+    if (action === "renameGroup") {
+      const name = readStringParam(params, "displayName") ?? readStringParam(params, "name");
+      if (!name?.trim()) {
+        throw new Error("WeCom renameGroup requires displayName or name parameter.");
+      }
+      const entry = await updateWecomGroupChat({ account, chat: readChatParam(params, action), name });
+      return jsonResult({ ok: true, chatId: entry.chatId, name: entry.name });
+    }
+
+    throw new Error(`Action ${action} is not supported for provider wecom.`);
+  },
+};
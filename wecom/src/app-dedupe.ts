@@ -0,0 +1,64 @@
+const APP_DEDUPE_TTL_MS = 5 * 60 * 1000;
+const APP_DEDUPE_MAX_ENTRIES = 5000;
+
+export type WecomAppDedupeStats = {
+  checked: number;
+  duplicates: number;
+  evicted: number;
+  size: number;
+};
+
+// Shared by every app account: WeCom retries the same callback to whichever path it was sent to.
+const seen = new Map<string, number>();
+const stats = { checked: 0, duplicates: 0, evicted: 0 };
+
+function pruneSeen(now: number): void {
+  const cutoff = now - APP_DEDUPE_TTL_MS;
+  for (const [key, ts] of seen.entries()) {
+    if (ts >= cutoff) break;
+    seen.delete(key);
+    stats.evicted += 1;
+  }
+  while (seen.size > APP_DEDUPE_MAX_ENTRIES) {
+    const oldest = seen.keys().next().value;
+    if (oldest === undefined) break;
+    seen.delete(oldest);
+    stats.evicted += 1;
+  }
+}
+
+/**
+ * `MsgId` for messages; events have none, so they use FromUserName + CreateTime + Event (+ EventKey).
+ */
+export function buildAppDedupeKey(msgObj: Record<string, any>): string | null {
+  const corpId = String(msgObj?.ToUserName ?? "");
+  const msgId = msgObj?.MsgId ?? msgObj?.MsgID;
+  if (msgId !== undefined && msgId !== null && String(msgId)) {
+    return `${corpId}|msg|${String(msgId)}`;
+  }
+  const fromUser = String(msgObj?.FromUserName ?? "");
+  const createTime = String(msgObj?.CreateTime ?? "");
+  if (!fromUser || !createTime) return null;
+  const event = String(msgObj?.Event ?? msgObj?.MsgType ?? "");
+  const eventKey = String(msgObj?.EventKey ?? msgObj?.TaskId ?? "");
+  return `${corpId}|evt|${fromUser}|${createTime}|${event}|${eventKey}`;
+}
+
+/**
+ * Returns true when the key was seen within the TTL; otherwise remembers it.
+ */
+export function isDuplicateAppCallback(key: string): boolean {
+  const now = Date.now();
+  pruneSeen(now);
+  stats.checked += 1;
+  if (seen.has(key)) {
+    stats.duplicates += 1;
+    return true;
+  }
+  seen.set(key, now);
+  return false;
+}
+
+export function getWecomAppDedupeStats(): WecomAppDedupeStats {
+  return { ...stats, size: seen.size };
+}
@@ -8,13 +8,31 @@ import {
   DEFAULT_ACCOUNT_ID,
   deleteAccountFromConfigSection,
   formatPairingApproveHint,
+  PAIRING_APPROVED_MESSAGE,
   setAccountEnabledInConfigSection,
 } from "openclaw/plugin-sdk";
 
 import { listWecomAccountIds, resolveDefaultWecomAccountId, resolveWecomAccount } from "./accounts.js";
+import { wecomMessageActions } from "./actions.js";
 import { WecomConfigSchema } from "./config-schema.js";
+import { listWecomChats } from "./chat-registry.js";
+import { isWecomDirectoryEnabled, listWecomDirectoryUsers, syncWecomDirectory } from "./directory.js";
+import { resolveWecomGroupRequireMention } from "./group-policy.js";
+import { normalizeWecomAllowEntry } from "./pairing.js";
 import type { ResolvedWecomAccount } from "./types.js";
 import { registerWecomWebhookTarget } from "./monitor.js";
+import {
+  parseWecomOutboundTarget,
+  resolveWecomOutboundAccount,
+  sendWecomOutboundMedia,
+  sendWecomOutboundRichMessage,
+  sendWecomOutboundText,
+} from "./outbound.js";
+import { extractWecomRichMessage } from "./rich-message.js";
+import { getWecomRateLimitStats, registerWecomRateLimitAccount } from "./rate-limit.js";
+import { openWecomStateStore } from "./state-store.js";
+import { resolveWecomTarget } from "./target-resolver.js";
+import { sendWecomText } from "./wecom-api.js";
 
 const meta = {
   id: "wecom",
@@ -93,9 +111,16 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
     },
     formatAllowFrom: ({ allowFrom }) =>
       allowFrom
-        .map((entry) => String(entry).trim())
-        .filter(Boolean)
-        .map((entry) => entry.toLowerCase()),
+        .map((entry) => normalizeWecomAllowEntry(String(entry)))
+        .filter(Boolean),
+  },
+  pairing: {
+    idLabel: "wecomUserId",
+    normalizeAllowEntry: (entry) => normalizeWecomAllowEntry(entry),
+    notifyApproval: async ({ cfg, id }) => {
+      const account = resolveWecomOutboundAccount(cfg as ClawdbotConfig);
+      await sendWecomText({ account, toUser: id, text: PAIRING_APPROVED_MESSAGE });
+    },
   },
   security: {
     resolveDmPolicy: ({ cfg, accountId, account }) => {
@@ -108,34 +133,99 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
         policyPath: `${basePath}dm.policy`,
         allowFromPath: `${basePath}dm.allowFrom`,
         approveHint: formatPairingApproveHint("wecom"),
-        normalizeEntry: (raw) => raw.trim().toLowerCase(),
+        normalizeEntry: (raw) => normalizeWecomAllowEntry(raw),
       };
     },
   },
   groups: {
-    resolveRequireMention: () => true,
+    resolveRequireMention: ({ cfg, accountId, groupId }) =>
+      resolveWecomGroupRequireMention(resolveWecomAccount({ cfg: cfg as ClawdbotConfig, accountId }), groupId ?? undefined),
   },
   threading: {
     resolveReplyToMode: () => "off",
+    // `user:` / `group:` tell message actions whether the current chat identifies the requester.
+    buildToolContext: ({ context, hasRepliedRef }) => {
+      const peer = normalizeWecomMessagingTarget(context.To ?? "");
+      return {
+        currentChannelId: peer ? `wecom:${context.ChatType === "group" ? "group" : "user"}:${peer}` : undefined,
+        hasRepliedRef,
+      };
+    },
   },
   messaging: {
     normalizeTarget: normalizeWecomMessagingTarget,
     targetResolver: {
       looksLikeId: (raw) => Boolean(raw.trim()),
-      hint: "<userid|chatid>",
+      hint: "<userid|姓名|邮箱|手机号|user:userid|group:chatid|group:群名|party:id|tag:id|@all>",
+    },
+  },
+  directory: {
+    self: async () => null,
+    listPeers: async ({ cfg, accountId, query, limit }) => {
+      const account = resolveWecomOutboundAccount(cfg as ClawdbotConfig, accountId);
+      const q = query?.trim().toLowerCase() || "";
+      return (await listWecomDirectoryUsers(account))
+        .filter((user) => !q || [user.userid, user.name, user.alias].some((value) => value?.toLowerCase().includes(q)))
+        .slice(0, limit && limit > 0 ? limit : undefined)
+        .map((user) => ({ kind: "user", id: user.userid, name: user.name }) as const);
+    },
+    listGroups: async ({ cfg, accountId, query, limit }) => {
+      const account = resolveWecomOutboundAccount(cfg as ClawdbotConfig, accountId);
+      const q = query?.trim().toLowerCase() || "";
+      return (await listWecomChats(account))
+        .filter((chat) => !q || [chat.chatId, chat.name].some((value) => value?.toLowerCase().includes(q)))
+        .slice(0, limit && limit > 0 ? limit : undefined)
+        .map((chat) => ({ kind: "group", id: chat.chatId, name: chat.name }) as const);
+    },
+  },
+  resolver: {
+    resolveTargets: async ({ cfg, accountId, inputs, kind }) => {
+      const account = resolveWecomOutboundAccount(cfg as ClawdbotConfig, accountId);
+      return await Promise.all(inputs.map(async (input: string) => {
+        const parsed = parseWecomOutboundTarget(input);
+        if (!parsed) return { input, resolved: false, note: "empty target" };
+        const target = kind === "group" && parsed.kind === "user" ? { kind: "group" as const, id: parsed.id } : parsed;
+        try {
+          const resolved = await resolveWecomTarget(account, target);
+          return { input, resolved: true, id: resolved.kind === "all" ? resolved.id : `${resolved.kind}:${resolved.id}` };
+        } catch (err) {
+          return { input, resolved: false, note: String((err as Error)?.message ?? err) };
+        }
+      }));
     },
   },
+  actions: wecomMessageActions,
   outbound: {
     deliveryMode: "direct",
     chunkerMode: "text",
     textChunkLimit: 20480,
-    sendText: async () => {
-      return {
-        channel: "wecom",
-        ok: false,
-        messageId: "",
-        error: new Error("WeCom outbound sendText not wired yet (skeleton)."),
-      };
+    sendText: async ({ cfg, to, text, accountId }) => {
+      const account = resolveWecomOutboundAccount(cfg as ClawdbotConfig, accountId);
+      return await sendWecomOutboundText({ account, to, text });
+    },
+    sendMedia: async ({ cfg, to, text, mediaUrl, accountId }) => {
+      const account = resolveWecomOutboundAccount(cfg as ClawdbotConfig, accountId);
+      if (!mediaUrl) {
+        return await sendWecomOutboundText({ account, to, text: text ?? "" });
+      }
+      return await sendWecomOutboundMedia({ account, to, mediaUrl, text });
+    },
+    sendPayload: async ({ cfg, to, payload, accountId }) => {
+      const account = resolveWecomOutboundAccount(cfg as ClawdbotConfig, accountId);
+      const richMessage = extractWecomRichMessage(payload);
+      if (richMessage) {
+        return await sendWecomOutboundRichMessage({ account, to, message: richMessage });
+      }
+      const mediaUrls = payload.mediaUrls?.length ? payload.mediaUrls : payload.mediaUrl ? [payload.mediaUrl] : [];
+      if (mediaUrls.length === 0) {
+        return await sendWecomOutboundText({ account, to, text: payload.text ?? "" });
+      }
+      let result = await sendWecomOutboundMedia({ account, to, mediaUrl: mediaUrls[0]!, text: payload.text });
+      for (const mediaUrl of mediaUrls.slice(1)) {
+        if (!result.ok) break;
+        result = await sendWecomOutboundMedia({ account, to, mediaUrl });
+      }
+      return result;
     },
   },
   status: {
@@ -172,6 +262,7 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
       lastInboundAt: runtime?.lastInboundAt ?? null,
       lastOutboundAt: runtime?.lastOutboundAt ?? null,
       dmPolicy: account.config.dm?.policy ?? "pairing",
+      apiRateLimit: getWecomRateLimitStats(account.accountId),
     }),
   },
   gateway: {
@@ -182,6 +273,13 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
         ctx.setStatus({ accountId: account.accountId, running: false, configured: false });
         return { stop: () => {} };
       }
+      registerWecomRateLimitAccount(account);
+      try {
+        await openWecomStateStore(account, (message) => ctx.log?.warn(message));
+      } catch (err) {
+        ctx.setStatus({ accountId: account.accountId, running: false, configured: true, lastError: String(err) });
+        throw err;
+      }
       const path = (account.config.webhookPath ?? "/wecom").trim();
       const pushPath = path.endsWith("/") ? `${path}push` : `${path}/push`;
       const unregister = registerWecomWebhookTarget({
@@ -202,6 +300,15 @@ export const wecomPlugin: ChannelPlugin<ResolvedWecomAccount> = {
       });
       ctx.log?.info(`[${account.accountId}] wecom webhook registered at ${path}`);
       ctx.log?.info(`[${account.accountId}] wecom push endpoint registered at ${pushPath}`);
+      if (isWecomDirectoryEnabled(account)) {
+        syncWecomDirectory({ account })
+          .then(({ users, departments }) => {
+            ctx.log?.info(`[${account.accountId}] wecom directory ready (${users} users, ${departments} departments)`);
+          })
+          .catch((err) => {
+            ctx.log?.warn(`[${account.accountId}] wecom directory sync failed: ${String(err)}`);
+          });
+      }
       ctx.setStatus({
         accountId: account.accountId,
         running: true,
@@ -0,0 +1,134 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+import { resolveWecomStateDir } from "./directory.js";
+import type { ResolvedWecomAccount } from "./types.js";
+
+const REGISTRY_PERSIST_DELAY_MS = 1000;
+const REGISTRY_MAX_CHATS = 2000;
+
+export type WecomChatEntry = {
+  chatId: string;
+  name?: string;
+  owner?: string;
+  members?: string[];
+  /**
+   * `created` for chats made through appchat/create, `inbound` for chats seen in callbacks,
+   * `lookup` for chats read or updated by chatid.
+   */
+  source: "created" | "inbound" | "lookup";
+  updatedAt: number;
+};
+
+type WecomChatRegistry = {
+  version: 1;
+  corpId: string;
+  chats: Record<string, WecomChatEntry>;
+};
+
+const registries = new Map<string, WecomChatRegistry>();
+const loading = new Map<string, Promise<WecomChatRegistry>>();
+const persistTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function resolveRegistryPath(account: ResolvedWecomAccount): string {
+  return join(resolveWecomStateDir(account), `chats-${account.corpId ?? "unknown"}.json`);
+}
+
+async function loadRegistry(account: ResolvedWecomAccount): Promise<WecomChatRegistry> {
+  const corpId = account.corpId ?? "";
+  const cached = registries.get(corpId);
+  if (cached) return cached;
+  const pending = loading.get(corpId);
+  if (pending) return pending;
+  const task = (async () => {
+    let registry: WecomChatRegistry = { version: 1, corpId, chats: {} };
+    try {
+      const parsed = JSON.parse(await readFile(resolveRegistryPath(account), "utf8")) as WecomChatRegistry;
+      if (parsed?.version === 1 && parsed.corpId === corpId && parsed.chats) {
+        registry = parsed;
+      }
+    } catch {
+      // missing or unreadable registry file: start empty
+    }
+    registries.set(corpId, registry);
+    return registry;
+  })();
+  loading.set(corpId, task);
+  try {
+    return await task;
+  } finally {
+    loading.delete(corpId);
+  }
+}
+
+function schedulePersist(account: ResolvedWecomAccount, registry: WecomChatRegistry): void {
+  const key = registry.corpId;
+  if (persistTimers.has(key)) return;
+  const path = resolveRegistryPath(account);
+  const timer = setTimeout(() => {
+    persistTimers.delete(key);
+    void (async () => {
+      try {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, JSON.stringify(registry), "utf8");
+      } catch {
+        // registry persistence is best-effort
+      }
+    })();
+  }, REGISTRY_PERSIST_DELAY_MS);
+  timer.unref?.();
+  persistTimers.set(key, timer);
+}
+
+function pruneRegistry(registry: WecomChatRegistry): void {
+  const entries = Object.values(registry.chats);
+  if (entries.length <= REGISTRY_MAX_CHATS) return;
+  entries
+    .sort((a, b) => a.updatedAt - b.updatedAt)
+    .slice(0, entries.length - REGISTRY_MAX_CHATS)
+    .forEach((entry) => {
+      delete registry.chats[entry.chatId];
+    });
+}
+
+/**
+ * Adds or updates a chat. Fields left undefined keep their previous value;
+ * a `created` source is never downgraded.
+ */
+export async function recordWecomChat(params: {
+  account: ResolvedWecomAccount;
+  chatId: string;
+  name?: string;
+  owner?: string;
+  members?: string[];
+  source: WecomChatEntry["source"];
+}): Promise<WecomChatEntry | null> {
+  const { account, chatId } = params;
+  if (!chatId || !account.corpId) return null;
+  const registry = await loadRegistry(account);
+  const existing = registry.chats[chatId];
+  const entry: WecomChatEntry = {
+    chatId,
+    name: params.name ?? existing?.name,
+    owner: params.owner ?? existing?.owner,
+    members: params.members ?? existing?.members,
+    source: existing?.source === "created" ? "created" : params.source,
+    updatedAt: Date.now(),
+  };
+  registry.chats[chatId] = entry;
+  pruneRegistry(registry);
+  schedulePersist(account, registry);
+  return entry;
+}
+
+export async function getWecomChat(account: ResolvedWecomAccount, chatId: string): Promise<WecomChatEntry | undefined> {
+  if (!account.corpId) return undefined;
+  const registry = await loadRegistry(account);
+  return registry.chats[chatId];
+}
+
+export async function listWecomChats(account: ResolvedWecomAccount): Promise<WecomChatEntry[]> {
+  if (!account.corpId) return [];
+  const registry = await loadRegistry(account);
+  return Object.values(registry.chats);
+}
@@ -0,0 +1,179 @@
+import type { CommandContext } from "./commands.js";
+import type {
+  ResolvedWecomAccount,
+  WecomCommandArg,
+  WecomCommandPermission,
+  WecomCustomCommandConfig,
+} from "./types.js";
+
+export type WecomCommandInvocation = {
+  /** Canonical command name ("/help"), also when an alias was typed. */
+  name: string;
+  /** Text after the command word. */
+  argText: string;
+  /** Whitespace separated arguments; quotes group words. */
+  args: string[];
+  /** Arguments by schema name; a variadic argument gets the rest joined by spaces. */
+  named: Record<string, string>;
+  /** Replies to the sender (stream reply in bot mode, passive or app message in app mode). */
+  reply: (text: string) => Promise<void>;
+};
+
+/** Returning `{ prompt }` hands the text to the agent instead of answering directly. */
+export type WecomCommandResult = void | { prompt: string };
+
+export type WecomCommandDefinition = {
+  name: string;
+  aliases?: string[];
+  /** One line shown in /help. */
+  description: string;
+  args?: WecomCommandArg[];
+  /** Default permission (everyone); `commands.permissions` overrides it. */
+  permission?: WecomCommandPermission;
+  /** Needs corpId / corpSecret / agentId; bot-only accounts get an explanation instead. */
+  requiresApp?: boolean;
+  /** Not listed in /help. */
+  hidden?: boolean;
+  handler: (ctx: CommandContext, invocation: WecomCommandInvocation) => Promise<WecomCommandResult>;
+};
+
+const registry = new Map<string, WecomCommandDefinition>();
+const keyIndex = new Map<string, string>();
+const configCommands = new WeakMap<object, { version: number; commands: Map<string, WecomCommandDefinition> }>();
+// Bumped on (un)registration so cached `commands.custom` lookups re-check name clashes.
+let registryVersion = 0;
+
+function normalizeCommandName(name: string): string {
+  const value = name.trim().toLowerCase();
+  return value.startsWith("/") ? value : `/${value}`;
+}
+
+/**
+ * Registers a command for every WeCom account. Throws when the name or an alias is taken;
+ * returns a function that removes the command again.
+ */
+export function registerWecomCommand(definition: WecomCommandDefinition): () => void {
+  const name = normalizeCommandName(definition.name);
+  const keys = [name, ...(definition.aliases ?? []).map(normalizeCommandName)];
+  for (const key of keys) {
+    const owner = keyIndex.get(key);
+    if (owner) throw new Error(`WeCom command ${key} is already registered by ${owner}`);
+  }
+  const entry: WecomCommandDefinition = { ...definition, name, aliases: keys.slice(1) };
+  registry.set(name, entry);
+  for (const key of keys) keyIndex.set(key, name);
+  registryVersion += 1;
+  return () => {
+    if (registry.get(name) !== entry) return;
+    registry.delete(name);
+    registryVersion += 1;
+    for (const key of keys) {
+      if (keyIndex.get(key) === name) keyIndex.delete(key);
+    }
+  };
+}
+
+function fillTemplate(template: string, ctx: CommandContext, invocation: WecomCommandInvocation): string {
+  return template.replace(/\{([^{}\s]+)\}/g, (match, key: string) => {
+    if (key === "args") return invocation.argText;
+    if (key === "user") return ctx.fromUser;
+    if (/^\d+$/.test(key)) return invocation.args[Number(key) - 1] ?? "";
+    return invocation.named[key] ?? match;
+  });
+}
+
+function buildConfigCommand(name: string, config: WecomCustomCommandConfig): WecomCommandDefinition | null {
+  const { reply, prompt } = config;
+  if (!reply?.trim() && !prompt?.trim()) return null;
+  return {
+    name: normalizeCommandName(name),
+    aliases: (config.aliases ?? []).map(normalizeCommandName),
+    description: config.description?.trim() || (reply ? "自定义回复" : "自定义指令"),
+    args: config.args,
+    permission: config.permission,
+    handler: async (ctx, invocation) => {
+      if (reply?.trim()) {
+        await invocation.reply(fillTemplate(reply, ctx, invocation));
+        return;
+      }
+      return { prompt: fillTemplate(prompt!, ctx, invocation) };
+    },
+  };
+}
+
+/**
+ * `commands.custom` of an account, keyed by name and alias. Entries that clash with a
+ * registered command are skipped so built-ins cannot be shadowed by config.
+ */
+function resolveConfigCommands(account: ResolvedWecomAccount): Map<string, WecomCommandDefinition> {
+  const custom = account.config.commands?.custom;
+  if (!custom) return new Map();
+  const cached = configCommands.get(custom);
+  if (cached?.version === registryVersion) return cached.commands;
+  const commands = new Map<string, WecomCommandDefinition>();
+  for (const [name, config] of Object.entries(custom)) {
+    const definition = config ? buildConfigCommand(name, config) : null;
+    if (!definition) continue;
+    const keys = [definition.name, ...(definition.aliases ?? [])].filter((key) => !keyIndex.has(key) && !commands.has(key));
+    if (!keys.includes(definition.name)) continue;
+    definition.aliases = keys.slice(1);
+    for (const key of keys) commands.set(key, definition);
+  }
+  configCommands.set(custom, { version: registryVersion, commands });
+  return commands;
+}
+
+/**
+ * Looks up a command by name or alias ("/帮助"); registered commands win over `commands.custom`.
+ */
+export function resolveWecomCommand(key: string, account?: ResolvedWecomAccount): WecomCommandDefinition | undefined {
+  const normalized = normalizeCommandName(key);
+  const name = keyIndex.get(normalized);
+  if (name) return registry.get(name);
+  return account ? resolveConfigCommands(account).get(normalized) : undefined;
+}
+
+export function listWecomCommands(account?: ResolvedWecomAccount): WecomCommandDefinition[] {
+  const custom = account ? new Set(resolveConfigCommands(account).values()) : new Set<WecomCommandDefinition>();
+  return [...registry.values(), ...custom];
+}
+
+export function parseWecomCommandArgs(raw: string): string[] {
+  const args: string[] = [];
+  const regex = /"([^"]+)"|'([^']+)'|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(raw))) {
+    args.push(match[1] ?? match[2] ?? match[3] ?? "");
+  }
+  return args;
+}
+
+/**
+ * Maps positional arguments onto the schema. `missing` names the first required argument
+ * that was not given.
+ */
+export function bindWecomCommandArgs(
+  definition: WecomCommandDefinition,
+  args: string[],
+): { named: Record<string, string>; missing?: string } {
+  const named: Record<string, string> = {};
+  const schema = definition.args ?? [];
+  for (let i = 0; i < schema.length; i += 1) {
+    const arg = schema[i]!;
+    const value = arg.variadic ? args.slice(i).join(" ") : args[i] ?? "";
+    if (!value && arg.required) return { named, missing: arg.name };
+    if (value) named[arg.name] = value;
+  }
+  return { named };
+}
+
+/**
+ * `/sendfile [path...]`, `/approve <配对码>`: required arguments in angle brackets.
+ */
+export function formatWecomCommandUsage(definition: WecomCommandDefinition): string {
+  const args = (definition.args ?? []).map((arg) => {
+    const label = `${arg.name}${arg.variadic ? "..." : ""}`;
+    return arg.required ? `<${label}>` : `[${label}]`;
+  });
+  return [definition.name, ...args].join(" ");
+}
@@ -1,4 +1,5 @@
-import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+import type { ClawdbotConfig, PluginRuntime } from "openclaw/plugin-sdk";
+import { PAIRING_APPROVED_MESSAGE } from "openclaw/plugin-sdk";
 import { createWriteStream } from "node:fs";
 import { appendFile, mkdir, mkdtemp, readFile, rm, stat } from "node:fs/promises";
 import { tmpdir } from "node:os";
@@ -8,6 +9,42 @@ import archiver from "archiver";
 import { getWecomRuntime } from "./runtime.js";
 import { listWecomAccountIds } from "./accounts.js";
 import { sendWecomFile, sendWecomText, uploadWecomMedia } from "./wecom-api.js";
+import {
+  buildWecomConversation,
+  findWecomSentMessage,
+  listRecentWecomSentMessages,
+  WECOM_RECALL_WINDOW_MS,
+} from "./message-store.js";
+import { recallWecomSentMessage } from "./outbound.js";
+import { getWecomAppDedupeStats } from "./app-dedupe.js";
+import { getWecomRateLimitStats } from "./rate-limit.js";
+import { checkWecomCommandAccess, isWecomAdmin, resolveWecomCommandPermission } from "./access.js";
+import {
+  bindWecomCommandArgs,
+  formatWecomCommandUsage,
+  listWecomCommands,
+  parseWecomCommandArgs,
+  registerWecomCommand,
+  resolveWecomCommand,
+  type WecomCommandDefinition,
+  type WecomCommandInvocation,
+} from "./command-registry.js";
+import {
+  checkWecomFileAccess,
+  expandWecomFileGlob,
+  hasWecomFileGlob,
+  listWecomSendableFiles,
+  resolveWecomRootPath,
+} from "./file-roots.js";
+import {
+  createWecomGroupChat,
+  formatWecomGroupChatInfo,
+  getWecomGroupChatInfo,
+  listWecomGroupChats,
+  updateWecomGroupChat,
+} from "./group-chat.js";
+import { approveWecomPairingCode, listWecomPairingRequests } from "./pairing.js";
+import type { PassiveReplySink } from "./passive-reply.js";
 import type { ResolvedWecomAccount } from "./types.js";
 
 export type CommandContext = {
@@ -18,9 +55,25 @@ export type CommandContext = {
   cfg: ClawdbotConfig;
   log?: (message: string) => void;
   statusSink?: (patch: { lastOutboundAt?: number }) => void;
+  passiveReply?: PassiveReplySink;
+  /** Bot mode: replies go into the stream reply instead of the app message API. */
+  reply?: (text: string) => void;
 };
 
+function hasAppCredentials(account: ResolvedWecomAccount): boolean {
+  return Boolean(account.corpId && account.corpSecret && account.agentId);
+}
+
 async function sendAndRecord(ctx: CommandContext, text: string): Promise<void> {
+  if (ctx.reply) {
+    ctx.reply(text);
+    ctx.log?.(`[wecom] command reply streamed to ${ctx.fromUser}`);
+    return;
+  }
+  if (ctx.passiveReply?.offer(text)) {
+    ctx.log?.(`[wecom] command reply queued as passive response for ${ctx.fromUser}`);
+    return;
+  }
   await sendWecomText({ account: ctx.account, toUser: ctx.fromUser, chatId: ctx.isGroup ? ctx.chatId : undefined, text });
   ctx.statusSink?.({ lastOutboundAt: Date.now() });
   ctx.log?.(`[wecom] command reply sent to ${ctx.fromUser}`);
@@ -58,7 +111,12 @@ async function appendOperationLog(ctx: CommandContext, entry: Record<string, unk
   }
 }
 
-async function zipDirectory(sourceDir: string): Promise<{ zipPath: string; cleanup: () => Promise<void> }> {
+const MAX_GLOB_MATCHES = 50;
+
+async function zipDirectory(
+  sourceDir: string,
+  files: { path: string; name: string }[],
+): Promise<{ zipPath: string; cleanup: () => Promise<void> }> {
   const tempDir = await mkdtemp(join(tmpdir(), "openclaw-wecom-zip-"));
   const zipPath = join(tempDir, `${basename(sourceDir)}.zip`);
   await new Promise<void>((resolve, reject) => {
@@ -67,7 +125,10 @@ async function zipDirectory(sourceDir: string): Promise<{ zipPath: string; clean
     output.on("close", () => resolve());
     archive.on("error", (err) => reject(err));
     archive.pipe(output);
-    archive.directory(sourceDir, false);
+    // Only files that passed the files.roots checks, never the raw directory tree.
+    for (const file of files) {
+      archive.file(file.path, { name: file.name });
+    }
     archive.finalize();
   });
   return {
@@ -78,31 +139,77 @@ async function zipDirectory(sourceDir: string): Promise<{ zipPath: string; clean
   };
 }
 
+/**
+ * Expands glob arguments (`/data/reports/2026-10-*.pdf`, `reports/*.xlsx`) into matching
+ * files, newest first and at most MAX_GLOB_MATCHES per pattern. Other arguments pass through.
+ */
+async function expandSendFileArgs(ctx: CommandContext, args: string[]): Promise<{ paths: string[]; skipped: number }> {
+  const paths: string[] = [];
+  let skipped = 0;
+  for (const arg of args) {
+    const resolved = resolveWecomRootPath(ctx.account, arg.replace(/^file:\/\//, ""));
+    if (!resolved || !hasWecomFileGlob(resolved)) {
+      paths.push(arg);
+      continue;
+    }
+    const matches = (await expandWecomFileGlob(ctx.account, resolved)).sort((a, b) => b.mtimeMs - a.mtimeMs);
+    if (matches.length === 0) {
+      skipped += 1;
+      await sendAndRecord(ctx, `⚠️ 没有匹配的文件：${arg}`);
+      continue;
+    }
+    if (matches.length > MAX_GLOB_MATCHES) {
+      await sendAndRecord(ctx, `⚠️ ${arg} 匹配 ${matches.length} 个文件，仅发送最新的 ${MAX_GLOB_MATCHES} 个。`);
+    }
+    paths.push(...matches.slice(0, MAX_GLOB_MATCHES).map((match) => match.path));
+  }
+  return { paths, skipped };
+}
+
 async function sendFiles(ctx: CommandContext, paths: string[]): Promise<{ sent: number; skipped: number }> {
   let sent = 0;
   let skipped = 0;
   const maxBytes = ctx.account.config.media?.maxBytes;
   const intervalMs = resolveSendIntervalMs(ctx);
   for (const rawPath of paths) {
-    const path = rawPath.startsWith("file://") ? rawPath.replace(/^file:\/\//, "") : rawPath;
-    if (!path.startsWith("/")) {
+    const path = resolveWecomRootPath(
+      ctx.account,
+      rawPath.startsWith("file://") ? rawPath.replace(/^file:\/\//, "") : rawPath,
+    );
+    if (!path) {
       skipped += 1;
-      await sendAndRecord(ctx, `⚠️ 路径需为绝对路径：${rawPath}`);
+      await sendAndRecord(ctx, `⚠️ 路径需为绝对路径或以根目录名开头：${rawPath}`);
       continue;
     }
     let cleanup: (() => Promise<void>) | null = null;
     try {
-      const info = await stat(path);
-      let sendPath = path;
+      const access = await checkWecomFileAccess(ctx.account, path);
+      if (!access.ok) {
+        skipped += 1;
+        await sendAndRecord(ctx, `⛔ ${access.reason}：${rawPath}`);
+        await appendOperationLog(ctx, {
+          action: "denied",
+          accountId: ctx.account.accountId,
+          command: "/sendfile",
+          toUser: ctx.fromUser,
+          chatId: ctx.chatId,
+          path,
+          reason: access.reason,
+        });
+        continue;
+      }
+      let sendPath = access.realPath;
 
-      if (info.isDirectory()) {
-        const zipped = await zipDirectory(path);
+      if (access.isDirectory) {
+        const files = await listWecomSendableFiles(ctx.account, access.realPath);
+        if (files.length === 0) {
+          skipped += 1;
+          await sendAndRecord(ctx, `⚠️ 文件夹中没有允许发送的文件：${rawPath}`);
+          continue;
+        }
+        const zipped = await zipDirectory(access.realPath, files);
         sendPath = zipped.zipPath;
         cleanup = zipped.cleanup;
-      } else if (!info.isFile()) {
-        skipped += 1;
-        await sendAndRecord(ctx, `⚠️ 不是文件或文件夹：${path}`);
-        continue;
       }
 
       const sendInfo = await stat(sendPath);
@@ -165,20 +272,31 @@ async function sendFiles(ctx: CommandContext, paths: string[]): Promise<{ sent:
 }
 
 async function handleHelp(ctx: CommandContext): Promise<void> {
-  const helpText = `🤖 WeCom 助手使用帮助
+  const commands = listWecomCommands(ctx.account).filter((command) => !command.hidden);
+  const lines: string[] = [];
+  for (const command of commands) {
+    const permission = resolveWecomCommandPermission(ctx.account, command.name);
+    if (permission === "disabled") continue;
+    const aliases = (command.aliases ?? []).filter((alias) => /[^\x00-\x7f]/.test(alias));
+    lines.push(`${formatWecomCommandUsage(command)} - ${command.description}${aliases.length > 0 ? `（${aliases.join("、")}）` : ""}${permission === "admin" ? "［管理员］" : ""}`);
+  }
+  const appOnly = commands.filter((command) => command.requiresApp).map((command) => command.name);
+  const note = hasAppCredentials(ctx.account) || appOnly.length === 0
+    ? ""
+    : `\n\n当前账户仅配置了 Bot 模式，${appOnly.join("、")} 需要先配置 App（corpId / corpSecret / agentId）。`;
+  await sendAndRecord(ctx, `🤖 WeCom 助手使用帮助
 
 可用命令：
-/help - 显示此帮助信息
-/clear - 清除会话历史，开始新对话
-/status - 查看系统状态
-/sendfile <path...> - 发送服务器文件（支持多个路径，可用引号）
+${lines.join("\n")}
 
-直接发送消息即可与 AI 对话。`;
-  await sendAndRecord(ctx, helpText);
+直接发送消息即可与 AI 对话。${note}`);
 }
 
 async function handleStatus(ctx: CommandContext): Promise<void> {
   const accounts = listWecomAccountIds(ctx.cfg);
+  const dedupe = getWecomAppDedupeStats();
+  const api = getWecomRateLimitStats(ctx.account.accountId);
+  const avgWaitMs = api.calls > 0 ? Math.round(api.totalWaitMs / api.calls) : 0;
   const statusText = `📊 系统状态
 
 渠道：WeCom
@@ -187,13 +305,18 @@ async function handleStatus(ctx: CommandContext): Promise<void> {
 已配置账户：${accounts.join(", ") || "default"}
 
 功能状态：
-✅ Bot 模式
-✅ App 模式
+${ctx.account.token && ctx.account.encodingAESKey ? "✅" : "⚪"} Bot 模式
+${hasAppCredentials(ctx.account) ? "✅" : "⚪"} App 模式
 ✅ 文本消息
 ✅ 图片接收
 ✅ 语音识别
 ✅ 消息分段
-✅ API 限流`;
+✅ API 限流
+
+回调去重：已拦截 ${dedupe.duplicates} 次重复 / 共 ${dedupe.checked} 次（缓存 ${dedupe.size} 条）
+API 调用：${api.calls} 次，排队 ${api.queued} 个，平均等待 ${avgWaitMs}ms（最长 ${api.maxWaitMs}ms）
+API 并发：每企业最多 ${api.maxConcurrent} 个，间隔 ${api.minIntervalMs}ms${api.corpAccounts.length > 1 ? `（同企业账户 ${api.corpAccounts.join(", ")} 取最严格值）` : ""}
+限频重试：${api.throttled} 次${api.lastThrottledAt ? `（最近一次 ${Math.round((Date.now() - api.lastThrottledAt) / 1000)} 秒前）` : ""}，网络重试 ${api.retries} 次`;
   await sendAndRecord(ctx, statusText);
 }
 
@@ -223,33 +346,303 @@ async function handleClear(ctx: CommandContext): Promise<void> {
   await sendAndRecord(ctx, "✅ 会话已重置，请开始新的对话。");
 }
 
-async function handleSendFile(cmd: string, ctx: CommandContext): Promise<void> {
-  const args = parseQuotedArgs(cmd.replace(/^\/sendfile(s)?\s*/i, ""));
+async function handleSendFile(ctx: CommandContext, invocation: WecomCommandInvocation): Promise<void> {
+  const args = parseQuotedArgs(invocation.argText);
   if (args.length === 0) {
-    await sendAndRecord(ctx, "用法：/sendfile /absolute/path/to/file1 /absolute/path/to/file2\n支持引号：/sendfile \"/path/with space/a.txt\"");
+    await sendAndRecord(ctx, "用法：/sendfile /absolute/path/to/file1 /absolute/path/to/file2\n支持引号：/sendfile \"/path/with space/a.txt\"\n也可用根目录名：/sendfile reports/2024.xlsx（仅限 files.roots 内的文件）\n支持通配符：/sendfile \"reports/2026-10-*.pdf\"");
     return;
   }
-  const { sent, skipped } = await sendFiles(ctx, args);
-  await sendAndRecord(ctx, `✅ 已发送 ${sent} 个文件${skipped ? `，跳过 ${skipped} 个` : ""}。`);
+  const expanded = await expandSendFileArgs(ctx, args);
+  const { sent, skipped } = await sendFiles(ctx, expanded.paths);
+  await sendAndRecord(ctx, `✅ 已发送 ${sent} 个文件${skipped + expanded.skipped ? `，跳过 ${skipped + expanded.skipped} 个` : ""}。`);
+}
+
+const RECALL_MAX_COUNT = 20;
+
+async function handleRecall(ctx: CommandContext, invocation: WecomCommandInvocation): Promise<void> {
+  const arg = invocation.args[0]?.trim() ?? "";
+  const conversation = buildWecomConversation({ toUser: ctx.fromUser, chatId: ctx.isGroup ? ctx.chatId : undefined });
+  let messageIds: string[];
+  if (!arg || /^\d{1,2}$/.test(arg)) {
+    const count = Math.min(Math.max(Number(arg || 1), 1), RECALL_MAX_COUNT);
+    messageIds = listRecentWecomSentMessages(ctx.account.accountId, conversation, count)
+      .filter((entry) => Date.now() - entry.sentAt <= WECOM_RECALL_WINDOW_MS)
+      .map((entry) => entry.messageId);
+  } else {
+    // Explicit ids: only messages the app sent into this conversation, unless the caller
+    // is an admin (who may also pass raw WeCom msgids).
+    const entry = findWecomSentMessage(ctx.account.accountId, arg);
+    if (entry?.conversation !== conversation && !(await isWecomAdmin({ account: ctx.account, userId: ctx.fromUser, log: ctx.log }))) {
+      await sendAndRecord(ctx, "⛔ 只能撤回应用在当前会话中发送的消息（撤回其他消息 ID 需要管理员权限）。");
+      return;
+    }
+    messageIds = [arg];
+  }
+  if (messageIds.length === 0) {
+    await sendAndRecord(ctx, "⚠️ 没有可撤回的消息（仅支持 24 小时内由应用发送的消息）。");
+    return;
+  }
+
+  let recalled = 0;
+  const errors: string[] = [];
+  for (const messageId of messageIds) {
+    try {
+      const result = await recallWecomSentMessage({ account: ctx.account, messageId });
+      if (result.recalled.length > 0) recalled += 1;
+      errors.push(...result.failed.map((item) => `${item.msgid}: ${item.error}`));
+    } catch (err) {
+      errors.push(`${messageId}: ${String(err)}`);
+    }
+  }
+  await appendOperationLog(ctx, {
+    action: "recall",
+    accountId: ctx.account.accountId,
+    toUser: ctx.fromUser,
+    chatId: ctx.chatId,
+    messageIds,
+    recalled,
+    errors: errors.length > 0 ? errors : undefined,
+  });
+  const summary = `✅ 已撤回 ${recalled} 条消息${errors.length ? `，失败 ${errors.length} 条` : ""}。`;
+  await sendAndRecord(ctx, errors.length ? `${summary}\n${errors.slice(0, 3).join("\n")}` : summary);
+}
+
+const GROUP_USAGE = `用法：
+/group create <群名> <成员...>（成员可写 userid、姓名、邮箱或手机号，至少 2 人）
+/group add [群] <成员...>
+/group info [群]
+/group list
+群可写 chatid 或群名；在群聊中使用 add / info 时可省略，默认当前群。`;
+
+const GROUP_LIST_MAX = 20;
+
+async function handleGroup(ctx: CommandContext, invocation: WecomCommandInvocation): Promise<void> {
+  const args = parseQuotedArgs(invocation.argText);
+  const sub = args.shift()?.toLowerCase() ?? "";
+  const currentChat = ctx.isGroup ? ctx.chatId : undefined;
+  try {
+    if (sub === "create") {
+      const [name, ...members] = args;
+      if (!name || members.length === 0) {
+        await sendAndRecord(ctx, GROUP_USAGE);
+        return;
+      }
+      const entry = await createWecomGroupChat({ account: ctx.account, name, members, owner: ctx.fromUser });
+      await appendOperationLog(ctx, {
+        action: "group-create",
+        accountId: ctx.account.accountId,
+        toUser: ctx.fromUser,
+        chatId: entry.chatId,
+        name,
+        members: entry.members,
+      });
+      await sendAndRecord(ctx, `✅ 已创建群聊「${name}」\nchatid：${entry.chatId}\n成员：${(entry.members ?? []).join("、")}`);
+      return;
+    }
+    if (sub === "add") {
+      const chat = currentChat ?? args.shift();
+      if (!chat || args.length === 0) {
+        await sendAndRecord(ctx, GROUP_USAGE);
+        return;
+      }
+      const entry = await updateWecomGroupChat({ account: ctx.account, chat, addMembers: args });
+      await appendOperationLog(ctx, {
+        action: "group-add",
+        accountId: ctx.account.accountId,
+        toUser: ctx.fromUser,
+        chatId: entry.chatId,
+        members: args,
+      });
+      await sendAndRecord(ctx, `✅ 已将 ${args.join("、")} 加入群聊${entry.name ? `「${entry.name}」` : ` ${entry.chatId}`}`);
+      return;
+    }
+    if (sub === "info") {
+      const chat = args[0] ?? currentChat;
+      if (!chat) {
+        await sendAndRecord(ctx, GROUP_USAGE);
+        return;
+      }
+      const info = await getWecomGroupChatInfo({ account: ctx.account, chat });
+      await sendAndRecord(ctx, `👥 群聊信息\n\n${formatWecomGroupChatInfo(info)}`);
+      return;
+    }
+    if (sub === "list") {
+      const chats = (await listWecomGroupChats(ctx.account)).slice(0, GROUP_LIST_MAX);
+      if (chats.length === 0) {
+        await sendAndRecord(ctx, "暂无已知群聊（由应用创建或收到过消息的群才会记录）。");
+        return;
+      }
+      const lines = chats.map((chat) => `- ${chat.name || "（未命名）"}：${chat.chatId}${chat.source === "created" ? "（应用创建）" : ""}`);
+      await sendAndRecord(ctx, `👥 已知群聊\n${lines.join("\n")}`);
+      return;
+    }
+    await sendAndRecord(ctx, GROUP_USAGE);
+  } catch (err) {
+    ctx.log?.(`[wecom] /group ${sub} failed: ${String(err)}`);
+    await sendAndRecord(ctx, `❌ 群聊操作失败：${err instanceof Error ? err.message : String(err)}`);
+  }
 }
 
-const COMMANDS: Record<string, (ctx: CommandContext) => Promise<void>> = {
-  "/help": handleHelp,
-  "/status": handleStatus,
-  "/clear": handleClear,
+async function handleApprove(ctx: CommandContext, invocation: WecomCommandInvocation): Promise<void> {
+  const code = invocation.argText.trim();
+  let core: PluginRuntime | null = null;
+  try {
+    core = getWecomRuntime();
+  } catch {
+    core = null;
+  }
+  try {
+    if (!code) {
+      const pending = await listWecomPairingRequests(core);
+      if (pending.length === 0) {
+        await sendAndRecord(ctx, "暂无待审批的配对请求。");
+        return;
+      }
+      const lines = pending.map((request) => `- ${request.code}：${request.id}${request.meta?.name ? `（${request.meta.name}）` : ""}`);
+      await sendAndRecord(ctx, `🔑 待审批的配对请求\n${lines.join("\n")}\n\n用法：/approve <配对码>`);
+      return;
+    }
+    const approved = await approveWecomPairingCode({ core, code });
+    if (!approved) {
+      await sendAndRecord(ctx, `❌ 配对码无效或已过期：${code}`);
+      return;
+    }
+    await appendOperationLog(ctx, {
+      action: "pairing-approve",
+      accountId: ctx.account.accountId,
+      toUser: ctx.fromUser,
+      userId: approved.id,
+      code: approved.code,
+    });
+    const label = `${approved.id}${approved.meta?.name ? `（${approved.meta.name}）` : ""}`;
+    if (!hasAppCredentials(ctx.account)) {
+      await sendAndRecord(ctx, `✅ 已批准 ${label} 私聊使用。当前账户未配置 App，无法主动通知对方，请让对方重新发送消息。`);
+      return;
+    }
+    await sendAndRecord(ctx, `✅ 已批准 ${label} 私聊使用。`);
+    try {
+      await sendWecomText({ account: ctx.account, toUser: approved.id, text: PAIRING_APPROVED_MESSAGE });
+    } catch (err) {
+      ctx.log?.(`[wecom] pairing approval notice to ${approved.id} failed: ${String(err)}`);
+    }
+  } catch (err) {
+    ctx.log?.(`[wecom] /approve failed: ${String(err)}`);
+    await sendAndRecord(ctx, `❌ 审批失败：${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+const BUILTIN_COMMANDS: WecomCommandDefinition[] = [
+  { name: "/help", aliases: ["/帮助"], description: "显示此帮助信息", handler: handleHelp },
+  { name: "/clear", aliases: ["/清除"], description: "清除会话历史，开始新对话", handler: handleClear },
+  { name: "/status", aliases: ["/状态"], description: "查看系统状态", handler: handleStatus },
+  {
+    name: "/sendfile",
+    aliases: ["/sendfiles"],
+    description: "发送服务器文件（支持多个路径与通配符，可用引号）",
+    args: [{ name: "路径", variadic: true }],
+    permission: "admin",
+    requiresApp: true,
+    handler: handleSendFile,
+  },
+  {
+    name: "/recall",
+    aliases: ["/撤回"],
+    description: "撤回最近发送的消息（24 小时内）",
+    args: [{ name: "条数|消息ID" }],
+    requiresApp: true,
+    handler: handleRecall,
+  },
+  {
+    name: "/group",
+    description: "管理应用群聊（create / add / info / list，不带参数查看用法）",
+    args: [{ name: "create|add|info|list" }, { name: "参数", variadic: true }],
+    permission: "admin",
+    requiresApp: true,
+    handler: handleGroup,
+  },
+  {
+    name: "/approve",
+    description: "批准私聊配对请求（不带参数列出待审批）",
+    args: [{ name: "配对码" }],
+    permission: "admin",
+    handler: handleApprove,
+  },
+];
+
+for (const command of BUILTIN_COMMANDS) registerWecomCommand(command);
+
+/**
+ * True when `text` starts with a registered or `commands.custom` command (bot mode decides
+ * before creating the stream whether the agent is needed).
+ */
+export function isWecomCommand(text: string, account?: ResolvedWecomAccount): boolean {
+  const key = text.trim().split(/\s+/)[0] ?? "";
+  return key.startsWith("/") && Boolean(resolveWecomCommand(key, account));
+}
+
+/**
+ * Returns false (after replying and logging) when the sender may not run `key`.
+ */
+async function ensureCommandAllowed(key: string, ctx: CommandContext): Promise<boolean> {
+  const decision = await checkWecomCommandAccess({
+    account: ctx.account,
+    userId: ctx.fromUser,
+    command: key,
+    log: ctx.log,
+  });
+  if (decision.allowed) return true;
+  ctx.log?.(`[wecom] command ${key} denied for ${ctx.fromUser} (${decision.permission})`);
+  await appendOperationLog(ctx, {
+    action: "denied",
+    accountId: ctx.account.accountId,
+    command: key,
+    permission: decision.permission,
+    toUser: ctx.fromUser,
+    chatId: ctx.chatId,
+  });
+  await sendAndRecord(ctx, `⛔ ${decision.reason ?? "无权限执行该命令。"}`);
+  return false;
+}
+
+export type WecomCommandOutcome = {
+  /** A reply was sent; the message must not reach the agent. */
+  handled: boolean;
+  /** Prompt-template command: send this text to the agent instead of the original message. */
+  prompt?: string;
 };
 
-export async function handleCommand(cmd: string, ctx: CommandContext): Promise<boolean> {
-  const key = cmd.trim().split(/\s+/)[0]?.toLowerCase();
-  if (!key) return false;
-  if (key === "/sendfile" || key === "/sendfiles") {
-    ctx.log?.(`[wecom] handling command ${key}`);
-    await handleSendFile(cmd, ctx);
-    return true;
-  }
-  const handler = COMMANDS[key];
-  if (!handler) return false;
-  ctx.log?.(`[wecom] handling command ${key}`);
-  await handler(ctx);
-  return true;
+export async function handleCommand(cmd: string, ctx: CommandContext): Promise<WecomCommandOutcome> {
+  const text = cmd.trim();
+  const key = text.split(/\s+/)[0] ?? "";
+  const command = key.startsWith("/") ? resolveWecomCommand(key, ctx.account) : undefined;
+  if (!command) return { handled: false };
+  if (!(await ensureCommandAllowed(command.name, ctx))) return { handled: true };
+  if (command.requiresApp && !hasAppCredentials(ctx.account)) {
+    ctx.log?.(`[wecom] command ${command.name} needs app credentials (account ${ctx.account.accountId})`);
+    await sendAndRecord(ctx, `⚠️ ${command.name} 需要 App 模式凭据（corpId / corpSecret / agentId），当前账户仅配置了 Bot 模式。`);
+    return { handled: true };
+  }
+  // A bot group chatid is not an app chat, so appchat/send and appchat/get would reject it.
+  if (command.requiresApp && ctx.reply && ctx.isGroup) {
+    ctx.log?.(`[wecom] command ${command.name} refused in bot group chat ${ctx.chatId ?? "unknown"}`);
+    await sendAndRecord(ctx, `⚠️ ${command.name} 通过应用接口收发，机器人所在的群聊不是应用群聊，无法在这里使用。请私聊机器人或在应用中发送该命令。`);
+    return { handled: true };
+  }
+  const argText = text.slice(key.length).trim();
+  const args = parseWecomCommandArgs(argText);
+  const { named, missing } = bindWecomCommandArgs(command, args);
+  if (missing) {
+    await sendAndRecord(ctx, `缺少参数 ${missing}。用法：${formatWecomCommandUsage(command)}`);
+    return { handled: true };
+  }
+  ctx.log?.(`[wecom] handling command ${command.name}`);
+  const result = await command.handler(ctx, {
+    name: command.name,
+    argText,
+    args,
+    named,
+    reply: (reply) => sendAndRecord(ctx, reply),
+  });
+  if (result?.prompt) return { handled: false, prompt: result.prompt };
+  return { handled: true };
 }
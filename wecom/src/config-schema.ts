@@ -22,6 +22,84 @@ const dmSchema = z
   })
   .optional();
 
+const groupChatSchema = z.object({
+  enabled: z.boolean().optional(),
+  policy: z.enum(["mention", "always", "never"]).optional(),
+  allowFrom: z.array(allowFromEntry).optional(),
+  agentId: z.string().optional(),
+});
+
+const groupsSchema = z
+  .object({
+    policy: z.enum(["mention", "always", "never", "allowlist"]).optional(),
+    mentionNames: z.array(z.string()).optional(),
+    allowFrom: z.array(allowFromEntry).optional(),
+    agentId: z.string().optional(),
+    chats: z.object({}).catchall(groupChatSchema).optional(),
+  })
+  .optional();
+
+const networkSchema = z.object({
+  timeoutMs: z.number().optional(),
+  retries: z.number().optional(),
+  retryDelayMs: z.number().optional(),
+  throttleRetries: z.number().optional(),
+  maxConcurrent: z.number().optional(),
+  minIntervalMs: z.number().optional(),
+  apiBaseUrl: z.string().optional(),
+  proxy: z.union([
+    z.string(),
+    z.object({
+      url: z.string(),
+      username: z.string().optional(),
+      password: z.string().optional(),
+      noProxy: z.array(z.string()).optional(),
+    }),
+  ]).optional(),
+});
+
+const commandPermissionSchema = z.enum(["everyone", "admin", "disabled"]);
+
+const commandArgSchema = z.object({
+  name: z.string(),
+  required: z.boolean().optional(),
+  variadic: z.boolean().optional(),
+  description: z.string().optional(),
+});
+
+const customCommandSchema = z.object({
+  aliases: z.array(z.string()).optional(),
+  description: z.string().optional(),
+  args: z.array(commandArgSchema).optional(),
+  permission: commandPermissionSchema.optional(),
+  prompt: z.string().optional(),
+  reply: z.string().optional(),
+});
+
+const commandsSchema = z
+  .object({
+    permissions: z.object({}).catchall(commandPermissionSchema).optional(),
+    custom: z.object({}).catchall(customCommandSchema).optional(),
+  })
+  .optional();
+
+const fileRootSchema = z.object({
+  path: z.string(),
+  aliases: z.array(z.string()).optional(),
+  readOnly: z.boolean().optional(),
+  maxDepth: z.number().optional(),
+  extensions: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+});
+
+const filesSchema = z
+  .object({
+    roots: z.object({}).catchall(fileRootSchema).optional(),
+    deny: z.array(z.string()).optional(),
+    searchDepth: z.number().optional(),
+  })
+  .optional();
+
 const accountSchema = z.object({
   name: z.string().optional(),
   enabled: z.boolean().optional(),
@@ -29,6 +107,28 @@ const accountSchema = z.object({
   webhookPath: z.string().optional(),
   welcomeText: z.string().optional(),
   dm: dmSchema,
+  groups: groupsSchema,
+  admins: z.array(allowFromEntry).optional(),
+  commands: commandsSchema,
+  files: filesSchema,
+  replyFormat: z.enum(["text", "markdown", "auto"]).optional(),
+  templateCard: z.object({
+    updateOnClick: z.boolean().optional(),
+    processedText: z.string().optional(),
+  }).optional(),
+  passiveReply: z.object({
+    enabled: z.boolean().optional(),
+    timeoutMs: z.number().optional(),
+  }).optional(),
+  directory: z.object({
+    enabled: z.boolean().optional(),
+    ttlHours: z.number().optional(),
+    cacheDir: z.string().optional(),
+  }).optional(),
+  state: z.object({
+    backend: z.enum(["memory", "file", "sqlite"]).optional(),
+    path: z.string().optional(),
+  }).optional(),
 
   // Bot API
   token: z.string().optional(),
@@ -89,11 +189,7 @@ const accountSchema = z.object({
     }).optional(),
   }).optional(),
 
-  network: z.object({
-    timeoutMs: z.number().optional(),
-    retries: z.number().optional(),
-    retryDelayMs: z.number().optional(),
-  }).optional(),
+  network: networkSchema.optional(),
 
   botMediaBridge: z.boolean().optional(),
 
@@ -113,6 +209,28 @@ export const WecomConfigSchema = ensureJsonSchema(z.object({
   webhookPath: z.string().optional(),
   welcomeText: z.string().optional(),
   dm: dmSchema,
+  groups: groupsSchema,
+  admins: z.array(allowFromEntry).optional(),
+  commands: commandsSchema,
+  files: filesSchema,
+  replyFormat: z.enum(["text", "markdown", "auto"]).optional(),
+  templateCard: z.object({
+    updateOnClick: z.boolean().optional(),
+    processedText: z.string().optional(),
+  }).optional(),
+  passiveReply: z.object({
+    enabled: z.boolean().optional(),
+    timeoutMs: z.number().optional(),
+  }).optional(),
+  directory: z.object({
+    enabled: z.boolean().optional(),
+    ttlHours: z.number().optional(),
+    cacheDir: z.string().optional(),
+  }).optional(),
+  state: z.object({
+    backend: z.enum(["memory", "file", "sqlite"]).optional(),
+    path: z.string().optional(),
+  }).optional(),
 
   token: z.string().optional(),
   encodingAESKey: z.string().optional(),
@@ -171,11 +289,7 @@ export const WecomConfigSchema = ensureJsonSchema(z.object({
     }).optional(),
   }).optional(),
 
-  network: z.object({
-    timeoutMs: z.number().optional(),
-    retries: z.number().optional(),
-    retryDelayMs: z.number().optional(),
-  }).optional(),
+  network: networkSchema.optional(),
 
   botMediaBridge: z.boolean().optional(),
 
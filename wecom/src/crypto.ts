@@ -142,3 +142,20 @@ export function encryptWecomPlaintext(params: {
   const encrypted = Buffer.concat([cipher.update(padded), cipher.final()]);
   return encrypted.toString("base64");
 }
+
+/**
+ * Inverse of `decryptWecomMedia`: encrypts media the way WeCom serves bot image/file URLs.
+ */
+export function encryptWecomMedia(params: {
+  encodingAESKey: string;
+  buffer: Buffer;
+}): Buffer {
+  const aesKey = decodeEncodingAESKey(params.encodingAESKey);
+  const iv = aesKey.subarray(0, 16);
+  const cipher = crypto.createCipheriv("aes-256-cbc", aesKey, iv);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([
+    cipher.update(pkcs7Pad(params.buffer, WECOM_PKCS7_BLOCK_SIZE)),
+    cipher.final(),
+  ]);
+}
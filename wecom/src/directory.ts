@@ -0,0 +1,453 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { ResolvedWecomAccount } from "./types.js";
+import {
+  getWecomTagMembers,
+  getWecomUser,
+  listWecomDepartments,
+  listWecomTags,
+  listWecomUserIds,
+  type WecomTagInfo,
+  type WecomTagMembers,
+} from "./wecom-api.js";
+
+const DIRECTORY_TTL_DEFAULT_HOURS = 24;
+const DIRECTORY_PERSIST_DELAY_MS = 1000;
+// Tag membership gates admin access, so it is not kept for the full directory TTL.
+const TAG_MEMBERS_TTL_MS = 10 * 60 * 1000;
+
+export type WecomDirectoryUser = {
+  userid: string;
+  name?: string;
+  alias?: string;
+  position?: string;
+  departmentIds: number[];
+  /** 0 when only known from `user/list_id` or a change event. */
+  fetchedAt: number;
+};
+
+export type WecomDirectoryDepartment = {
+  id: number;
+  name?: string;
+  parentid?: number;
+};
+
+type WecomDirectoryCache = {
+  version: 1;
+  corpId: string;
+  users: Record<string, WecomDirectoryUser>;
+  departments: Record<string, WecomDirectoryDepartment>;
+  departmentsFetchedAt: number;
+  syncedAt: number;
+};
+
+export type WecomContact = {
+  userid: string;
+  name: string;
+  departments: string[];
+  position?: string;
+  /** False when the directory could not be reached and only the userid is known. */
+  resolved: boolean;
+};
+
+const caches = new Map<string, WecomDirectoryCache>();
+const loading = new Map<string, Promise<WecomDirectoryCache>>();
+const inflight = new Map<string, Promise<unknown>>();
+const persistTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const tagMembers = new Map<string, { members: WecomTagMembers; fetchedAt: number }>();
+const tagLists = new Map<string, { tags: WecomTagInfo[]; fetchedAt: number }>();
+const revisions = new Map<string, number>();
+
+function hasAppCredentials(account: ResolvedWecomAccount): boolean {
+  return Boolean(account.corpId && account.corpSecret && account.agentId);
+}
+
+export function isWecomDirectoryEnabled(account: ResolvedWecomAccount): boolean {
+  return hasAppCredentials(account) && account.config.directory?.enabled !== false;
+}
+
+function resolveTtlMs(account: ResolvedWecomAccount): number {
+  const hours = account.config.directory?.ttlHours;
+  const value = typeof hours === "number" && hours > 0 ? hours : DIRECTORY_TTL_DEFAULT_HOURS;
+  return value * 60 * 60 * 1000;
+}
+
+/**
+ * Directory for persisted per-corp state (directory cache, chat registry).
+ */
+export function resolveWecomStateDir(account: ResolvedWecomAccount): string {
+  return account.config.directory?.cacheDir?.trim() || join(homedir(), ".openclaw", "wecom");
+}
+
+function resolveCachePath(account: ResolvedWecomAccount): string {
+  return join(resolveWecomStateDir(account), `directory-${account.corpId ?? "unknown"}.json`);
+}
+
+function emptyCache(corpId: string): WecomDirectoryCache {
+  return { version: 1, corpId, users: {}, departments: {}, departmentsFetchedAt: 0, syncedAt: 0 };
+}
+
+async function loadCache(account: ResolvedWecomAccount): Promise<WecomDirectoryCache> {
+  const corpId = account.corpId ?? "";
+  const cached = caches.get(corpId);
+  if (cached) return cached;
+  const pending = loading.get(corpId);
+  if (pending) return pending;
+  const task = (async () => {
+    let cache = emptyCache(corpId);
+    try {
+      const parsed = JSON.parse(await readFile(resolveCachePath(account), "utf8")) as WecomDirectoryCache;
+      if (parsed?.version === 1 && parsed.corpId === corpId) {
+        cache = { ...cache, ...parsed };
+      }
+    } catch {
+      // missing or unreadable cache file: start empty
+    }
+    caches.set(corpId, cache);
+    return cache;
+  })();
+  loading.set(corpId, task);
+  try {
+    return await task;
+  } finally {
+    loading.delete(corpId);
+  }
+}
+
+function schedulePersist(account: ResolvedWecomAccount, cache: WecomDirectoryCache): void {
+  const key = cache.corpId;
+  if (persistTimers.has(key)) return;
+  const path = resolveCachePath(account);
+  const timer = setTimeout(() => {
+    persistTimers.delete(key);
+    void (async () => {
+      try {
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, JSON.stringify(cache), "utf8");
+      } catch {
+        // cache persistence is best-effort
+      }
+    })();
+  }, DIRECTORY_PERSIST_DELAY_MS);
+  timer.unref?.();
+  persistTimers.set(key, timer);
+}
+
+async function dedupeInflight<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const existing = inflight.get(key) as Promise<T> | undefined;
+  if (existing) return existing;
+  const promise = task().finally(() => inflight.delete(key));
+  inflight.set(key, promise);
+  return promise;
+}
+
+async function ensureDepartments(account: ResolvedWecomAccount, cache: WecomDirectoryCache): Promise<void> {
+  if (Date.now() - cache.departmentsFetchedAt < resolveTtlMs(account)) return;
+  await dedupeInflight(`${cache.corpId}:departments`, async () => {
+    const departments = await listWecomDepartments({ account });
+    cache.departments = {};
+    for (const dept of departments) {
+      cache.departments[String(dept.id)] = { id: dept.id, name: dept.name, parentid: dept.parentid };
+    }
+    cache.departmentsFetchedAt = Date.now();
+    schedulePersist(account, cache);
+  });
+}
+
+async function fetchUser(account: ResolvedWecomAccount, cache: WecomDirectoryCache, userId: string): Promise<WecomDirectoryUser> {
+  return await dedupeInflight(`${cache.corpId}:user:${userId}`, async () => {
+    const info = await getWecomUser({ account, userId });
+    const entry: WecomDirectoryUser = {
+      userid: info.userid,
+      name: info.name,
+      alias: info.alias,
+      position: info.position,
+      departmentIds: info.department ?? cache.users[userId]?.departmentIds ?? [],
+      fetchedAt: Date.now(),
+    };
+    cache.users[userId] = entry;
+    schedulePersist(account, cache);
+    return entry;
+  });
+}
+
+function departmentNames(cache: WecomDirectoryCache, ids: number[]): string[] {
+  return ids
+    .map((id) => cache.departments[String(id)]?.name)
+    .filter((name): name is string => Boolean(name));
+}
+
+function fallbackContact(userId: string): WecomContact {
+  return { userid: userId, name: userId, departments: [], resolved: false };
+}
+
+/**
+ * Resolves a userid to name / departments / position. Stale entries are refreshed
+ * after `directory.ttlHours`; on any failure the cached entry or the bare userid is used.
+ */
+export async function resolveWecomContact(params: {
+  account: ResolvedWecomAccount;
+  userId: string;
+  log?: (message: string) => void;
+}): Promise<WecomContact> {
+  const { account, userId, log } = params;
+  if (!userId || !isWecomDirectoryEnabled(account)) return fallbackContact(userId);
+  const cache = await loadCache(account);
+  let entry = cache.users[userId];
+  if (!entry || Date.now() - entry.fetchedAt >= resolveTtlMs(account)) {
+    try {
+      entry = await fetchUser(account, cache, userId);
+    } catch (err) {
+      log?.(`[wecom] directory lookup failed for ${userId}: ${String(err)}`);
+    }
+  }
+  try {
+    await ensureDepartments(account, cache);
+  } catch (err) {
+    log?.(`[wecom] directory department list failed: ${String(err)}`);
+  }
+  if (!entry) return fallbackContact(userId);
+  return {
+    userid: userId,
+    name: entry.name || userId,
+    departments: departmentNames(cache, entry.departmentIds),
+    position: entry.position || undefined,
+    resolved: Boolean(entry.name),
+  };
+}
+
+/**
+ * `张三（技术部 / 工程师）`; just the userid when nothing else is known.
+ */
+export function formatWecomContactLabel(contact: WecomContact): string {
+  const extras = [contact.departments.join("、"), contact.position].filter(Boolean);
+  const base = contact.name !== contact.userid ? `${contact.name} (${contact.userid})` : contact.userid;
+  return extras.length > 0 ? `${base}（${extras.join(" / ")}）` : base;
+}
+
+/**
+ * Full member sync via `user/list_id` + `department/list`. Skipped while the last sync is fresh
+ * unless `force` is set.
+ */
+export async function syncWecomDirectory(params: {
+  account: ResolvedWecomAccount;
+  force?: boolean;
+}): Promise<{ users: number; departments: number }> {
+  const { account, force } = params;
+  if (!isWecomDirectoryEnabled(account)) return { users: 0, departments: 0 };
+  const cache = await loadCache(account);
+  if (!force && Date.now() - cache.syncedAt < resolveTtlMs(account)) {
+    return { users: Object.keys(cache.users).length, departments: Object.keys(cache.departments).length };
+  }
+  await dedupeInflight(`${cache.corpId}:sync`, async () => {
+    const pairs = await listWecomUserIds({ account });
+    const membership = new Map<string, number[]>();
+    for (const pair of pairs) {
+      const list = membership.get(pair.userid) ?? [];
+      list.push(pair.department);
+      membership.set(pair.userid, list);
+    }
+    for (const [userid, departmentIds] of membership) {
+      const existing = cache.users[userid];
+      cache.users[userid] = existing
+        ? { ...existing, departmentIds }
+        : { userid, departmentIds, fetchedAt: 0 };
+    }
+    for (const userid of Object.keys(cache.users)) {
+      if (!membership.has(userid)) delete cache.users[userid];
+    }
+    cache.departmentsFetchedAt = 0;
+    await ensureDepartments(account, cache);
+    cache.syncedAt = Date.now();
+    schedulePersist(account, cache);
+  });
+  return { users: Object.keys(cache.users).length, departments: Object.keys(cache.departments).length };
+}
+
+const NAME_HYDRATE_DEFAULT_MAX = 200;
+const NAME_HYDRATE_CONCURRENCY = 10;
+
+/**
+ * `user/list_id` only returns userids; fetch names for up to `max` members that have none yet
+ * so name lookups can match them. Progress is persisted, so repeated calls cover large corps.
+ */
+export async function ensureWecomDirectoryNames(params: {
+  account: ResolvedWecomAccount;
+  max?: number;
+}): Promise<number> {
+  const { account } = params;
+  if (!isWecomDirectoryEnabled(account)) return 0;
+  const cache = await loadCache(account);
+  const missing = Object.values(cache.users)
+    .filter((user) => !user.name)
+    .slice(0, params.max ?? NAME_HYDRATE_DEFAULT_MAX);
+  let fetched = 0;
+  for (let i = 0; i < missing.length; i += NAME_HYDRATE_CONCURRENCY) {
+    await Promise.all(missing.slice(i, i + NAME_HYDRATE_CONCURRENCY).map(async (user) => {
+      try {
+        await fetchUser(account, cache, user.userid);
+        fetched += 1;
+      } catch {
+        // leave unnamed; retried on the next call
+      }
+    }));
+  }
+  return fetched;
+}
+
+/**
+ * Department ids of a user including every ancestor department, so `dept:<id>` rules
+ * cover sub-departments. Empty when the directory is disabled or the user is unknown.
+ */
+export async function resolveWecomUserDepartmentIds(params: {
+  account: ResolvedWecomAccount;
+  userId: string;
+  log?: (message: string) => void;
+}): Promise<number[]> {
+  const { account, userId, log } = params;
+  if (!userId || !isWecomDirectoryEnabled(account)) return [];
+  const cache = await loadCache(account);
+  let entry = cache.users[userId];
+  if (!entry || Date.now() - entry.fetchedAt >= resolveTtlMs(account)) {
+    try {
+      entry = await fetchUser(account, cache, userId);
+    } catch (err) {
+      log?.(`[wecom] directory lookup failed for ${userId}: ${String(err)}`);
+    }
+  }
+  try {
+    await ensureDepartments(account, cache);
+  } catch (err) {
+    log?.(`[wecom] directory department list failed: ${String(err)}`);
+  }
+  const ids = new Set<number>();
+  for (const id of entry?.departmentIds ?? []) {
+    let current: number | undefined = id;
+    // parentid chains are short; the guard stops on cycles in a corrupt cache.
+    while (current !== undefined && !ids.has(current)) {
+      ids.add(current);
+      current = cache.departments[String(current)]?.parentid;
+    }
+  }
+  return Array.from(ids);
+}
+
+export async function listWecomTagMembers(params: {
+  account: ResolvedWecomAccount;
+  tagId: string | number;
+}): Promise<WecomTagMembers> {
+  const { account } = params;
+  const key = `${account.corpId ?? ""}:${params.tagId}`;
+  const cached = tagMembers.get(key);
+  if (cached && Date.now() - cached.fetchedAt < TAG_MEMBERS_TTL_MS) return cached.members;
+  const members = await dedupeInflight(`tag:${key}`, () => getWecomTagMembers({ account, tagId: params.tagId }));
+  tagMembers.set(key, { members, fetchedAt: Date.now() });
+  return members;
+}
+
+/**
+ * Resolves `tag:<id>` or `tag:<name>` to a numeric tag id; names are matched
+ * case-insensitively against `tag/list`. Returns null for unknown tags.
+ */
+export async function resolveWecomTagId(params: {
+  account: ResolvedWecomAccount;
+  tag: string;
+}): Promise<number | null> {
+  const { account } = params;
+  const value = params.tag.trim();
+  if (/^\d+$/.test(value)) return Number(value);
+  const key = account.corpId ?? "";
+  let cached = tagLists.get(key);
+  if (!cached || Date.now() - cached.fetchedAt >= TAG_MEMBERS_TTL_MS) {
+    const tags = await dedupeInflight(`tags:${key}`, () => listWecomTags({ account }));
+    cached = { tags, fetchedAt: Date.now() };
+    tagLists.set(key, cached);
+  }
+  const lowered = value.toLowerCase();
+  return cached.tags.find((tag) => tag.tagname.trim().toLowerCase() === lowered)?.tagid ?? null;
+}
+
+/**
+ * Bumped on every applied `change_contact` event, so callers caching results derived
+ * from the directory (allowlist decisions) know when to re-evaluate.
+ */
+export function getWecomDirectoryRevision(account: ResolvedWecomAccount): number {
+  return revisions.get(account.corpId ?? "") ?? 0;
+}
+
+export async function listWecomDirectoryUsers(account: ResolvedWecomAccount): Promise<WecomDirectoryUser[]> {
+  if (!isWecomDirectoryEnabled(account)) return [];
+  const cache = await loadCache(account);
+  return Object.values(cache.users);
+}
+
+export async function listWecomDirectoryDepartments(account: ResolvedWecomAccount): Promise<WecomDirectoryDepartment[]> {
+  if (!isWecomDirectoryEnabled(account)) return [];
+  const cache = await loadCache(account);
+  return Object.values(cache.departments);
+}
+
+function parseIdList(value: unknown): number[] {
+  if (value === undefined || value === null || value === "") return [];
+  return String(value)
+    .split(",")
+    .map((item) => Number(item.trim()))
+    .filter((id) => Number.isFinite(id));
+}
+
+/**
+ * Applies a `change_contact` callback incrementally. Users touched by the event are
+ * marked stale so the next lookup refetches them. Returns the ChangeType handled.
+ */
+export async function applyWecomContactChange(params: {
+  account: ResolvedWecomAccount;
+  msgObj: Record<string, any>;
+}): Promise<string> {
+  const { account, msgObj } = params;
+  const changeType = String(msgObj?.ChangeType ?? "").toLowerCase();
+  if (!isWecomDirectoryEnabled(account)) return changeType;
+  const cache = await loadCache(account);
+  revisions.set(cache.corpId, (revisions.get(cache.corpId) ?? 0) + 1);
+
+  if (changeType === "create_user" || changeType === "update_user") {
+    const userId = String(msgObj?.UserID ?? "");
+    if (!userId) return changeType;
+    const newUserId = msgObj?.NewUserID ? String(msgObj.NewUserID) : "";
+    const existing = cache.users[userId];
+    if (newUserId && newUserId !== userId) delete cache.users[userId];
+    const departmentIds = parseIdList(msgObj?.Department);
+    const id = newUserId || userId;
+    cache.users[id] = {
+      userid: id,
+      name: msgObj?.Name ? String(msgObj.Name) : existing?.name,
+      alias: msgObj?.Alias ? String(msgObj.Alias) : existing?.alias,
+      position: msgObj?.Position !== undefined ? String(msgObj.Position) : existing?.position,
+      departmentIds: departmentIds.length > 0 ? departmentIds : existing?.departmentIds ?? [],
+      fetchedAt: 0,
+    };
+  } else if (changeType === "delete_user") {
+    delete cache.users[String(msgObj?.UserID ?? "")];
+  } else if (changeType === "create_party" || changeType === "update_party") {
+    const id = Number(msgObj?.Id);
+    if (Number.isFinite(id)) {
+      const existing = cache.departments[String(id)];
+      cache.departments[String(id)] = {
+        id,
+        name: msgObj?.Name ? String(msgObj.Name) : existing?.name,
+        parentid: msgObj?.ParentId !== undefined ? Number(msgObj.ParentId) : existing?.parentid,
+      };
+    }
+  } else if (changeType === "delete_party") {
+    delete cache.departments[String(msgObj?.Id ?? "")];
+  } else if (changeType === "update_tag") {
+    tagMembers.delete(`${cache.corpId}:${String(msgObj?.TagId ?? "")}`);
+    tagLists.delete(cache.corpId);
+    return changeType;
+  } else {
+    return changeType;
+  }
+  schedulePersist(account, cache);
+  return changeType;
+}
@@ -0,0 +1,62 @@
+import type { PluginRuntime } from "openclaw/plugin-sdk";
+
+import { isWecomAdmin, matchesWecomPrincipal } from "./access.js";
+import { resolveWecomContact } from "./directory.js";
+import {
+  buildWecomPairingReply,
+  normalizeWecomAllowEntry,
+  readWecomPairedUsers,
+  upsertWecomPairingRequest,
+} from "./pairing.js";
+import type { ResolvedWecomAccount, WecomDmConfig } from "./types.js";
+
+export type WecomDmPolicy = NonNullable<WecomDmConfig["policy"]>;
+
+export type WecomDmDecision = {
+  allowed: boolean;
+  policy: WecomDmPolicy;
+  /** Why the message was blocked (for verbose logs). */
+  reason?: string;
+  /** Sent back to a blocked sender (pairing code); only on the first request. */
+  reply?: string;
+};
+
+export function resolveWecomDmPolicy(account: ResolvedWecomAccount): WecomDmPolicy {
+  return account.config.dm?.policy ?? "pairing";
+}
+
+/**
+ * Applies `dm.policy` to a direct message. `dm.allowFrom` (userids, `dept:` / `tag:` /
+ * `corp:` entries), paired users and admins pass `allowlist` / `pairing`; unknown senders
+ * get a pairing code in `pairing` mode.
+ */
+export async function evaluateWecomDmAccess(params: {
+  account: ResolvedWecomAccount;
+  core: PluginRuntime | null;
+  senderId: string;
+  log?: (message: string) => void;
+}): Promise<WecomDmDecision> {
+  const { account, core, senderId, log } = params;
+  const policy = resolveWecomDmPolicy(account);
+  if (policy === "open") return { allowed: true, policy };
+  if (policy === "disabled") return { allowed: false, policy, reason: "dm policy disabled" };
+
+  const configured = (account.config.dm?.allowFrom ?? []).map((entry) => normalizeWecomAllowEntry(String(entry)));
+  if (await matchesWecomPrincipal({ account, userId: senderId, entries: configured, log })) return { allowed: true, policy };
+  const paired = await readWecomPairedUsers(core);
+  if (paired.includes(normalizeWecomAllowEntry(senderId))) return { allowed: true, policy };
+  // Admins always get through so they can run /approve.
+  if (await isWecomAdmin({ account, userId: senderId, log })) return { allowed: true, policy };
+
+  if (policy === "allowlist") return { allowed: false, policy, reason: `sender ${senderId} not in dm.allowFrom` };
+  if (!core) return { allowed: false, policy, reason: "runtime not ready for pairing" };
+  const contact = await resolveWecomContact({ account, userId: senderId, log });
+  const { code, created } = await upsertWecomPairingRequest({
+    core,
+    userId: senderId,
+    name: contact.resolved ? contact.name : undefined,
+  });
+  if (!code) return { allowed: false, policy, reason: "too many pending pairing requests" };
+  if (!created) return { allowed: false, policy, reason: `pairing pending for ${senderId}` };
+  return { allowed: false, policy, reason: `pairing requested by ${senderId}`, reply: buildWecomPairingReply(core, senderId, code) };
+}
@@ -0,0 +1,88 @@
+import { basename, extname } from "node:path";
+
+// First character of each pinyin initial under the zh collator (a b c d e f g h j k l m n o p q r s t w x y z).
+const PINYIN_BOUNDARIES = "阿八嚓哒妸发旮哈讥咔垃痳拏噢妑七呥扨它穵夕丫帀";
+const PINYIN_LETTERS = "abcdefghjklmnopqrstwxyz";
+const CJK_PATTERN = /[\u4e00-\u9fff]/;
+
+let collator: Intl.Collator | null | undefined;
+
+function getCollator(): Intl.Collator | null {
+  if (collator === undefined) {
+    try {
+      collator = new Intl.Collator("zh");
+    } catch {
+      collator = null;
+    }
+  }
+  return collator;
+}
+
+function pinyinInitial(char: string): string {
+  const zh = getCollator();
+  if (!zh) return char;
+  let index = -1;
+  for (let i = 0; i < PINYIN_BOUNDARIES.length; i += 1) {
+    if (zh.compare(char, PINYIN_BOUNDARIES[i]!) >= 0) index = i;
+    else break;
+  }
+  return index >= 0 ? PINYIN_LETTERS[index]! : char;
+}
+
+/**
+ * Replaces each Chinese character with its pinyin initial ("周会纪要" -> "zhjy"); other
+ * characters are lowercased. Needs Node's ICU collation data; without it text is unchanged.
+ */
+export function toPinyinInitials(text: string): string {
+  return Array.from(text.toLowerCase())
+    .map((char) => (CJK_PATTERN.test(char) ? pinyinInitial(char) : char))
+    .join("");
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[\s_\-.()（）【】\[\]]+/g, "");
+}
+
+function isSubsequence(query: string, value: string): boolean {
+  let index = 0;
+  for (const char of value) {
+    if (char === query[index]) index += 1;
+    if (index === query.length) return true;
+  }
+  return false;
+}
+
+/**
+ * Scores a file name against a search query; 0 means no match. Each whitespace-separated
+ * token must match: 3 = substring, 2 = pinyin initials ("zhjy" for 周会纪要), 1 = the
+ * token's characters appear in order. The weakest token decides the score.
+ */
+export function scoreWecomFileName(name: string, query: string): number {
+  const file = basename(name);
+  const stem = normalize(file.slice(0, file.length - extname(file).length) || file);
+  const initials = toPinyinInitials(stem);
+  const tokens = query.split(/\s+/).map(normalize).filter(Boolean);
+  if (tokens.length === 0) return 0;
+  let score = 3;
+  for (const token of tokens) {
+    if (stem.includes(token)) continue;
+    if (/^[a-z0-9]+$/.test(token) && initials.includes(token)) {
+      score = Math.min(score, 2);
+    } else if (Array.from(token).length >= 2 && isSubsequence(token, stem)) {
+      score = Math.min(score, 1);
+    } else {
+      return 0;
+    }
+  }
+  return score;
+}
+
+/**
+ * Keeps the entries in the best matching tier for `query`, preserving their order.
+ */
+export function filterWecomFilesByQuery<T extends { name: string }>(items: T[], query: string): T[] {
+  const scored = items.map((item) => ({ item, score: scoreWecomFileName(item.name, query) }));
+  const best = Math.max(0, ...scored.map((entry) => entry.score));
+  if (best === 0) return [];
+  return scored.filter((entry) => entry.score === best).map((entry) => entry.item);
+}
@@ -0,0 +1,368 @@
+import { readdir, readFile, realpath, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { extname, isAbsolute, join, relative, resolve, sep } from "node:path";
+
+import { resolveWecomMediaTempDir } from "./media-utils.js";
+import type { ResolvedWecomAccount, WecomFileRootConfig } from "./types.js";
+
+// Always denied, in addition to files.deny and per-root deny.
+const BUILTIN_DENY = [
+  "**/.ssh/**",
+  "**/.gnupg/**",
+  "**/.aws/**",
+  "**/.kube/**",
+  "*.pem",
+  "*.key",
+  "*.p12",
+  "*.pfx",
+  "id_rsa*",
+  "id_ed25519*",
+  ".env",
+  ".env.*",
+  ".netrc",
+  ".npmrc",
+];
+
+// Upper bound for directory walks (zipping a folder, globs, searches).
+const MAX_WALK_FILES = 5000;
+const DEFAULT_SEARCH_DEPTH = 3;
+
+export type WecomFileRoot = {
+  name: string;
+  /** Root key plus aliases; matched case-insensitively. */
+  names: string[];
+  /** Shown to users ("在桌面找到 3 个文件"). */
+  label: string;
+  path: string;
+  readOnly: boolean;
+  maxDepth?: number;
+  extensions?: string[];
+  deny: string[];
+};
+
+export type WecomFileAccess =
+  | {
+    ok: true;
+    root: WecomFileRoot;
+    /** Symlinks resolved; read this path, not the requested one. */
+    realPath: string;
+    relativePath: string;
+    isDirectory: boolean;
+    size: number;
+    mtimeMs: number;
+  }
+  | { ok: false; reason: string };
+
+export type WecomFileEntry = {
+  /** Path relative to the searched directory, `/`-separated. */
+  name: string;
+  /** Real path (symlinks resolved). */
+  path: string;
+  size: number;
+  mtimeMs: number;
+};
+
+type RealRoot = WecomFileRoot & { realPath: string };
+
+function expandHome(path: string): string {
+  if (path === "~") return homedir();
+  if (path.startsWith("~/")) return join(homedir(), path.slice(2));
+  return path;
+}
+
+function toPosix(path: string): string {
+  return sep === "/" ? path : path.split(sep).join("/");
+}
+
+// Without files.roots the previous search dirs stay available; the first root is the default search dir.
+function defaultRootConfigs(account: ResolvedWecomAccount): Record<string, WecomFileRootConfig> {
+  return {
+    temp: { path: resolveWecomMediaTempDir(account), aliases: ["临时目录", "临时", "tmp"], readOnly: false },
+    desktop: { path: join(homedir(), "Desktop"), aliases: ["桌面"] },
+    downloads: { path: join(homedir(), "Downloads"), aliases: ["下载", "download"] },
+  };
+}
+
+export function resolveWecomFileRoots(account: ResolvedWecomAccount): WecomFileRoot[] {
+  const files = account.config.files;
+  const configured = files?.roots && Object.keys(files.roots).length > 0 ? files.roots : defaultRootConfigs(account);
+  const sharedDeny = [...BUILTIN_DENY, ...(files?.deny ?? [])];
+  const roots: WecomFileRoot[] = [];
+  for (const [name, root] of Object.entries(configured)) {
+    const path = root?.path?.trim();
+    if (!path) continue;
+    const aliases = (root.aliases ?? []).map((alias) => alias.trim()).filter(Boolean);
+    const extensions = root.extensions
+      ?.map((ext) => ext.trim().replace(/^\./, "").toLowerCase())
+      .filter(Boolean);
+    roots.push({
+      name,
+      names: Array.from(new Set([name, ...aliases].map((value) => value.toLowerCase()))),
+      label: aliases[0] ?? name,
+      path: resolve(expandHome(path)),
+      readOnly: root.readOnly !== false,
+      maxDepth: typeof root.maxDepth === "number" && root.maxDepth > 0 ? Math.floor(root.maxDepth) : undefined,
+      extensions: extensions && extensions.length > 0 ? extensions : undefined,
+      deny: [...sharedDeny, ...(root.deny ?? [])],
+    });
+  }
+  return roots;
+}
+
+export function findWecomFileRoot(account: ResolvedWecomAccount, name: string): WecomFileRoot | undefined {
+  const key = name.trim().toLowerCase();
+  if (!key) return undefined;
+  return resolveWecomFileRoots(account).find((root) => root.names.includes(key));
+}
+
+/**
+ * Picks the root named in free text ("把 reports 里的 xlsx 发给我"); the longest matching
+ * name wins. ASCII names must stand alone, CJK names may appear anywhere.
+ */
+export function matchWecomFileRoot(account: ResolvedWecomAccount, text: string): WecomFileRoot | undefined {
+  const lower = text.toLowerCase();
+  let best: { root: WecomFileRoot; length: number } | undefined;
+  for (const root of resolveWecomFileRoots(account)) {
+    for (const name of root.names) {
+      const matched = /^[\x00-\x7f]+$/.test(name)
+        ? new RegExp(`(^|[^a-z0-9_.-])${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}($|[^a-z0-9_.-])`).test(lower)
+        : lower.includes(name);
+      if (matched && (!best || name.length > best.length)) best = { root, length: name.length };
+    }
+  }
+  return best?.root;
+}
+
+/**
+ * Maps a /sendfile argument to a path: absolute paths and `~/...` as-is, `<root>/<rest>`
+ * relative to that root. Returns null when neither applies.
+ */
+export function resolveWecomRootPath(account: ResolvedWecomAccount, input: string): string | null {
+  const value = expandHome(input.trim());
+  if (!value) return null;
+  if (isAbsolute(value)) return value;
+  const [head, ...rest] = value.split("/");
+  const root = head ? findWecomFileRoot(account, head) : undefined;
+  if (!root) return null;
+  return rest.length > 0 ? join(root.path, ...rest) : root.path;
+}
+
+/**
+ * True when `path` lies in a read-only root (the most specific root decides).
+ */
+export function isWecomReadOnlyPath(account: ResolvedWecomAccount, path: string): boolean {
+  const target = resolve(expandHome(path));
+  let best: WecomFileRoot | undefined;
+  for (const root of resolveWecomFileRoots(account)) {
+    const rel = relative(root.path, target);
+    if (rel.startsWith("..") || isAbsolute(rel)) continue;
+    if (!best || root.path.length > best.path.length) best = root;
+  }
+  return best?.readOnly ?? false;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let out = "";
+  for (let i = 0; i < glob.length; i += 1) {
+    const ch = glob[i]!;
+    if (ch === "*" && glob[i + 1] === "*") {
+      i += 1;
+      if (glob[i + 1] === "/") {
+        i += 1;
+        out += "(?:.*/)?";
+      } else {
+        out += ".*";
+      }
+    } else if (ch === "*") {
+      out += "[^/]*";
+    } else if (ch === "?") {
+      out += "[^/]";
+    } else {
+      out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${out}$`, "i");
+}
+
+/**
+ * Globs containing `/` match the path inside the root or the absolute path; others
+ * (`*.pem`, `.env`) match any single path segment inside the root.
+ */
+function findDeniedPattern(patterns: string[], paths: { relative: string; absolute: string[] }): string | undefined {
+  const segments = paths.relative.split("/").filter(Boolean);
+  const full = [paths.relative, ...paths.absolute].filter(Boolean).flatMap((path) => [path, `${path}/`]);
+  for (const pattern of patterns) {
+    const trimmed = pattern.trim();
+    if (!trimmed) continue;
+    const regex = globToRegExp(trimmed);
+    const hit = trimmed.includes("/")
+      ? full.some((path) => regex.test(path))
+      : segments.some((segment) => regex.test(segment));
+    if (hit) return trimmed;
+  }
+  return undefined;
+}
+
+async function resolveRealRoots(account: ResolvedWecomAccount): Promise<RealRoot[]> {
+  const roots: RealRoot[] = [];
+  for (const root of resolveWecomFileRoots(account)) {
+    try {
+      roots.push({ ...root, realPath: await realpath(root.path) });
+    } catch {
+      // missing root: nothing to send from it
+    }
+  }
+  return roots;
+}
+
+async function checkAgainstRoots(roots: RealRoot[], requested: string): Promise<WecomFileAccess> {
+  let realPath: string;
+  try {
+    realPath = await realpath(requested);
+  } catch {
+    return { ok: false, reason: "文件不存在" };
+  }
+  let root: RealRoot | undefined;
+  for (const candidate of roots) {
+    const rel = relative(candidate.realPath, realPath);
+    if (rel.startsWith("..") || isAbsolute(rel)) continue;
+    if (!root || candidate.realPath.length > root.realPath.length) root = candidate;
+  }
+  if (!root) return { ok: false, reason: "不在允许发送的目录内" };
+
+  const relativePath = toPosix(relative(root.realPath, realPath));
+  const depth = relativePath ? relativePath.split("/").length : 0;
+  if (root.maxDepth && depth > root.maxDepth) {
+    return { ok: false, reason: `超出 ${root.label} 允许的目录深度(${root.maxDepth})` };
+  }
+  const denied = findDeniedPattern(root.deny, {
+    relative: relativePath,
+    absolute: [toPosix(realPath), toPosix(requested)],
+  });
+  if (denied) return { ok: false, reason: `命中禁止规则 ${denied}` };
+
+  let info;
+  try {
+    info = await stat(realPath);
+  } catch {
+    return { ok: false, reason: "文件不存在" };
+  }
+  const isDirectory = info.isDirectory();
+  if (!isDirectory && !info.isFile()) return { ok: false, reason: "不是文件或文件夹" };
+  if (!isDirectory && root.extensions) {
+    const ext = extname(realPath).slice(1).toLowerCase();
+    if (!root.extensions.includes(ext)) {
+      return { ok: false, reason: `${root.label} 仅允许 ${root.extensions.join("/")} 文件` };
+    }
+  }
+  const { realPath: _rootRealPath, ...publicRoot } = root;
+  return { ok: true, root: publicRoot, realPath, relativePath, isDirectory, size: info.size, mtimeMs: info.mtimeMs };
+}
+
+/**
+ * Resolves symlinks and checks `path` against files.roots: inside a root, within its
+ * maxDepth, allowed extension and not denied. Every file send goes through this.
+ */
+export async function checkWecomFileAccess(account: ResolvedWecomAccount, path: string): Promise<WecomFileAccess> {
+  const requested = resolve(expandHome(path));
+  return await checkAgainstRoots(await resolveRealRoots(account), requested);
+}
+
+/**
+ * Reads a local media path from an agent reply, push or outbound action after
+ * `checkWecomFileAccess`; throws when the path is outside files.roots or denied.
+ */
+export async function readWecomSendableFile(
+  account: ResolvedWecomAccount,
+  path: string,
+): Promise<{ buffer: Buffer; realPath: string }> {
+  const access = await checkWecomFileAccess(account, path);
+  if (!access.ok) throw new Error(`WeCom media path not allowed: ${path} (${access.reason})`);
+  if (access.isDirectory) throw new Error(`WeCom media path is a directory: ${path}`);
+  return { buffer: await readFile(access.realPath), realPath: access.realPath };
+}
+
+/**
+ * Breadth-first walk below `dir` (at most `maxDepth` levels) returning sendable files.
+ * Denied or out-of-root entries are skipped; symlink loops are visited once.
+ */
+async function walkFiles(roots: RealRoot[], dir: string, maxDepth?: number): Promise<WecomFileEntry[]> {
+  const base = await realpath(dir);
+  const files: WecomFileEntry[] = [];
+  const visited = new Set<string>([base]);
+  const queue: { path: string; name: string; level: number }[] = [{ path: base, name: "", level: 0 }];
+  while (queue.length > 0 && files.length < MAX_WALK_FILES) {
+    const current = queue.shift()!;
+    let entries: string[] = [];
+    try {
+      entries = await readdir(current.path);
+    } catch {
+      continue;
+    }
+    for (const entry of entries.sort()) {
+      const name = current.name ? `${current.name}/${entry}` : entry;
+      const access = await checkAgainstRoots(roots, join(current.path, entry));
+      if (!access.ok) continue;
+      if (access.isDirectory) {
+        if (visited.has(access.realPath)) continue;
+        if (maxDepth !== undefined && current.level + 1 >= maxDepth) continue;
+        visited.add(access.realPath);
+        queue.push({ path: access.realPath, name, level: current.level + 1 });
+      } else {
+        files.push({ name, path: access.realPath, size: access.size, mtimeMs: access.mtimeMs });
+      }
+    }
+  }
+  return files.slice(0, MAX_WALK_FILES);
+}
+
+export function resolveWecomFileSearchDepth(account: ResolvedWecomAccount): number {
+  const depth = account.config.files?.searchDepth;
+  return typeof depth === "number" && depth > 0 ? Math.floor(depth) : DEFAULT_SEARCH_DEPTH;
+}
+
+/**
+ * Lists sendable files in a root, `depth` levels deep (1 = no subdirectories).
+ */
+export async function listWecomRootFiles(
+  account: ResolvedWecomAccount,
+  root: WecomFileRoot,
+  depth = 1,
+): Promise<WecomFileEntry[]> {
+  try {
+    return await walkFiles(await resolveRealRoots(account), root.path, depth);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Returns the files that may be sent from an allowed directory, with names relative
+ * to `dir` for archive entries.
+ */
+export async function listWecomSendableFiles(account: ResolvedWecomAccount, dir: string): Promise<WecomFileEntry[]> {
+  return await walkFiles(await resolveRealRoots(account), dir);
+}
+
+export function hasWecomFileGlob(path: string): boolean {
+  return /[*?]/.test(path);
+}
+
+/**
+ * Expands `*`, `?` and `**` in a path (`/data/reports/2026-10-*.pdf`). The part before the
+ * first wildcard must be an allowed directory; matches go through the same root checks.
+ */
+export async function expandWecomFileGlob(account: ResolvedWecomAccount, pattern: string): Promise<WecomFileEntry[]> {
+  const segments = toPosix(resolve(expandHome(pattern))).split("/");
+  const first = segments.findIndex((segment) => hasWecomFileGlob(segment));
+  if (first < 0) return [];
+  const base = segments.slice(0, first).join("/") || "/";
+  const rest = segments.slice(first);
+  const roots = await resolveRealRoots(account);
+  const access = await checkAgainstRoots(roots, base);
+  if (!access.ok || !access.isDirectory) return [];
+  const depth = rest.some((segment) => segment.includes("**")) ? undefined : rest.length;
+  const regex = globToRegExp(rest.join("/"));
+  const files = await walkFiles(roots, access.realPath, depth);
+  return files.filter((file) => regex.test(file.name));
+}
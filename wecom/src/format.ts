@@ -1,4 +1,7 @@
 export const WECOM_TEXT_BYTE_LIMIT = 2000;
+export const WECOM_MARKDOWN_BYTE_LIMIT = 2048;
+
+export type WecomReplyFormat = "text" | "markdown" | "auto";
 
 export function markdownToWecomText(markdown: string): string {
   if (!markdown) return markdown;
@@ -32,6 +35,85 @@ export function markdownToWecomText(markdown: string): string {
   return text.trim();
 }
 
+/**
+ * Converts agent markdown into the subset WeCom renders for `msgtype: "markdown"`:
+ * headings, bold, links, inline code, quotes and `<font color>`.
+ */
+export function markdownToWecomMarkdown(markdown: string): string {
+  if (!markdown) return markdown;
+
+  let text = markdown.replace(/\r\n/g, "\n");
+
+  // Fenced code is not supported; keep it readable as a quote block.
+  text = text.replace(/```(\w*)\n([\s\S]*?)```/g, (_match, lang, code) => {
+    const lines = String(code).replace(/\n$/, "").split("\n").map((line) => `> ${line}`);
+    return lang ? [`> <font color="comment">${lang}</font>`, ...lines].join("\n") : lines.join("\n");
+  });
+
+  text = text.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, (_match, alt, url) => `[${alt || "图片"}](${url})`);
+  text = text.replace(/^#{4,6} (.+)$/gm, "### $1");
+  // Rules and `*` / `+` bullets first, so their markers are not taken for emphasis.
+  text = text.replace(/^[-*_]{3,}$/gm, "────────────");
+  text = text.replace(/^(\s*)[*+] /gm, "$1- ");
+  text = text.replace(/\*\*\*([^*]+)\*\*\*/g, "**$1**");
+  text = text.replace(/___([^_]+)___/g, "**$1**");
+  text = text.replace(/__([^_]+)__/g, "**$1**");
+  // Italic needs text right inside both markers and no word character outside (2*3*4 stays).
+  text = text.replace(/(^|[^*\w])\*(?=\S)([^*\n]*?\S)\*(?![*\w])/g, "$1$2");
+  text = text.replace(/(^|[^\w_])_([^_\n]+)_(?![\w_])/g, "$1$2");
+  text = text.replace(/~~([^~]+)~~/g, "$1");
+
+  text = text.replace(/\n{3,}/g, "\n\n");
+
+  return text.trim();
+}
+
+/**
+ * True when the text uses formatting that WeCom markdown can render.
+ */
+export function hasWecomMarkdownSyntax(markdown: string): boolean {
+  if (!markdown) return false;
+  return /^#{1,6} /m.test(markdown)
+    || /\*\*[^*]+\*\*/.test(markdown)
+    || /\[[^\]]+\]\([^)]+\)/.test(markdown)
+    || /^> /m.test(markdown)
+    || /`[^`]+`/.test(markdown)
+    || /<font color=/i.test(markdown);
+}
+
+export function resolveReplyFormat(raw?: string): WecomReplyFormat {
+  if (raw === "markdown" || raw === "auto") return raw;
+  return "text";
+}
+
+/**
+ * Splits on line boundaries so markdown syntax is not cut in half.
+ */
+export function splitWecomMarkdown(markdown: string, byteLimit = WECOM_MARKDOWN_BYTE_LIMIT): string[] {
+  if (!markdown) return [""];
+  if (getByteLength(markdown) <= byteLimit) return [markdown];
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const line of markdown.split("\n")) {
+    const next = current ? `${current}\n${line}` : line;
+    if (getByteLength(next) <= byteLimit) {
+      current = next;
+      continue;
+    }
+    if (current) chunks.push(current);
+    if (getByteLength(line) > byteLimit) {
+      const parts = splitWecomText(line, byteLimit);
+      current = parts.pop() ?? "";
+      chunks.push(...parts);
+    } else {
+      current = line;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks.length > 0 ? chunks : [markdown];
+}
+
 function getByteLength(str: string): number {
   return Buffer.byteLength(str, "utf8");
 }
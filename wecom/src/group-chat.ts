@@ -0,0 +1,117 @@
+import { getWecomChat, listWecomChats, recordWecomChat, type WecomChatEntry } from "./chat-registry.js";
+import { resolveWecomTarget } from "./target-resolver.js";
+import type { ResolvedWecomAccount } from "./types.js";
+import { createWecomAppChat, getWecomAppChat, updateWecomAppChat, type WecomAppChatInfo } from "./wecom-api.js";
+
+export const WECOM_APPCHAT_NAME_MAX = 50;
+
+async function resolveUserIds(account: ResolvedWecomAccount, members: string[]): Promise<string[]> {
+  const ids: string[] = [];
+  for (const member of members) {
+    const value = member.trim().replace(/^@/, "");
+    if (!value) continue;
+    const resolved = await resolveWecomTarget(account, { kind: "user", id: value.replace(/^(user|userid):/i, "") });
+    ids.push(resolved.id);
+  }
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Accepts a chatid or the name of a chat in the local registry.
+ */
+export async function resolveWecomGroupChatId(account: ResolvedWecomAccount, chat: string): Promise<string> {
+  const value = chat.trim().replace(/^(group|chat|chatid|appchat):/i, "");
+  if (!value) throw new Error("WeCom group chat required: <chatid|群名>");
+  const resolved = await resolveWecomTarget(account, { kind: "group", id: value });
+  return resolved.id;
+}
+
+/**
+ * Creates an app group chat from userids / names / emails / mobiles and records it
+ * in the local chat registry. `owner` defaults to the first member.
+ */
+export async function createWecomGroupChat(params: {
+  account: ResolvedWecomAccount;
+  name: string;
+  members: string[];
+  owner?: string;
+}): Promise<WecomChatEntry> {
+  const { account } = params;
+  const name = params.name.trim();
+  if (!name) throw new Error("WeCom group chat name required");
+  if (name.length > WECOM_APPCHAT_NAME_MAX) {
+    throw new Error(`WeCom group chat name exceeds ${WECOM_APPCHAT_NAME_MAX} characters`);
+  }
+  const userIds = await resolveUserIds(account, params.members);
+  const owner = params.owner ? (await resolveUserIds(account, [params.owner]))[0] : userIds[0];
+  if (owner && !userIds.includes(owner)) userIds.unshift(owner);
+  const chatId = await createWecomAppChat({ account, name, owner, userIds });
+  const entry = await recordWecomChat({ account, chatId, name, owner, members: userIds, source: "created" });
+  return entry ?? { chatId, name, owner, members: userIds, source: "created", updatedAt: Date.now() };
+}
+
+export async function updateWecomGroupChat(params: {
+  account: ResolvedWecomAccount;
+  chat: string;
+  name?: string;
+  owner?: string;
+  addMembers?: string[];
+  removeMembers?: string[];
+}): Promise<WecomChatEntry> {
+  const { account } = params;
+  const chatId = await resolveWecomGroupChatId(account, params.chat);
+  const name = params.name?.trim() || undefined;
+  if (name && name.length > WECOM_APPCHAT_NAME_MAX) {
+    throw new Error(`WeCom group chat name exceeds ${WECOM_APPCHAT_NAME_MAX} characters`);
+  }
+  const addUserIds = params.addMembers?.length ? await resolveUserIds(account, params.addMembers) : [];
+  const removeUserIds = params.removeMembers?.length ? await resolveUserIds(account, params.removeMembers) : [];
+  const owner = params.owner ? (await resolveUserIds(account, [params.owner]))[0] : undefined;
+  if (!name && !owner && addUserIds.length === 0 && removeUserIds.length === 0) {
+    throw new Error("WeCom group chat update requires name, owner or members");
+  }
+  await updateWecomAppChat({ account, chatId, name, owner, addUserIds, removeUserIds });
+
+  const existing = await getWecomChat(account, chatId);
+  const members = existing?.members
+    ? Array.from(new Set([...existing.members, ...addUserIds])).filter((id) => !removeUserIds.includes(id))
+    : undefined;
+  const entry = await recordWecomChat({ account, chatId, name, owner, members, source: existing?.source ?? "lookup" });
+  return entry ?? { chatId, name, owner, members, source: "lookup", updatedAt: Date.now() };
+}
+
+/**
+ * Reads a chat back from WeCom (only chats created by this app) and refreshes the registry.
+ */
+export async function getWecomGroupChatInfo(params: {
+  account: ResolvedWecomAccount;
+  chat: string;
+}): Promise<WecomAppChatInfo> {
+  const { account } = params;
+  const chatId = await resolveWecomGroupChatId(account, params.chat);
+  const info = await getWecomAppChat({ account, chatId });
+  const existing = await getWecomChat(account, chatId);
+  await recordWecomChat({
+    account,
+    chatId,
+    name: info.name,
+    owner: info.owner,
+    members: info.userlist,
+    source: existing?.source ?? "lookup",
+  });
+  return info;
+}
+
+export async function listWecomGroupChats(account: ResolvedWecomAccount): Promise<WecomChatEntry[]> {
+  return (await listWecomChats(account)).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function formatWecomGroupChatInfo(info: WecomAppChatInfo): string {
+  const members = info.userlist.length > 0 ? info.userlist.join("、") : "（未知）";
+  return [
+    `群名：${info.name || "（未命名）"}`,
+    `chatid：${info.chatid}`,
+    `群主：${info.owner || "（未知）"}`,
+    `成员（${info.userlist.length}）：${members}`,
+  ].join("\n");
+}
@@ -0,0 +1,118 @@
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+
+import { matchesWecomPrincipal } from "./access.js";
+import type { ResolvedWecomAccount, WecomGroupChatConfig, WecomGroupPolicy } from "./types.js";
+
+export type WecomGroupDecision = {
+  allowed: boolean;
+  /** Why the message was ignored (for verbose logs). */
+  reason?: string;
+  policy: WecomGroupPolicy;
+  wasMentioned: boolean;
+  /** Text with the leading @mention removed. */
+  text: string;
+  agentId?: string;
+};
+
+// WeCom separates an @mention from the text with a regular or a four-per-em space (U+2005).
+const MENTION_SEPARATOR = "[\\s\\u2005]";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function resolveChatConfig(account: ResolvedWecomAccount, chatId: string): WecomGroupChatConfig | undefined {
+  const chats = account.config.groups?.chats;
+  return chats?.[chatId] ?? chats?.["*"];
+}
+
+export function resolveWecomGroupPolicy(account: ResolvedWecomAccount, chatId?: string): WecomGroupPolicy {
+  const groups = account.config.groups;
+  const chat = chatId ? resolveChatConfig(account, chatId) : undefined;
+  if (chat?.policy) return chat.policy;
+  const policy = groups?.policy ?? "mention";
+  // Listed chats without their own policy require a mention.
+  return policy === "allowlist" && chat ? "mention" : policy;
+}
+
+export function resolveWecomGroupRequireMention(account: ResolvedWecomAccount, chatId?: string): boolean {
+  const policy = resolveWecomGroupPolicy(account, chatId);
+  return policy === "mention" || policy === "allowlist";
+}
+
+/**
+ * Removes a leading `@name` mention. With `mentionNames` only those names count;
+ * otherwise any leading `@token` is treated as the mention of this bot.
+ */
+export function stripWecomMention(text: string, mentionNames: string[] = []): { text: string; mentioned: boolean } {
+  const names = mentionNames.map((name) => name.trim()).filter(Boolean);
+  const pattern = names.length > 0
+    ? new RegExp(`^\\s*@(?:${names.map(escapeRegExp).join("|")})(?:${MENTION_SEPARATOR}+|$)`, "i")
+    : new RegExp(`^\\s*@[^\\s\\u2005]+(?:${MENTION_SEPARATOR}+|$)`);
+  const match = text.match(pattern);
+  if (match) return { text: text.slice(match[0].length).trim(), mentioned: true };
+  if (names.length > 0) {
+    const inline = new RegExp(`@(?:${names.map(escapeRegExp).join("|")})(?=${MENTION_SEPARATOR}|$)`, "i");
+    if (inline.test(text)) {
+      return { text: text.replace(inline, "").replace(/[\s\u2005]+/g, " ").trim(), mentioned: true };
+    }
+  }
+  return { text, mentioned: false };
+}
+
+/**
+ * Applies `groups` to an inbound group message. Bot callbacks in groups are only
+ * delivered when the bot is @-mentioned, so bot mode passes `mentionedByPlatform`.
+ * `allowFrom` accepts the same userid / `dept:` / `tag:` / `corp:` entries as `admins`.
+ */
+export async function evaluateWecomGroupMessage(params: {
+  account: ResolvedWecomAccount;
+  chatId: string;
+  senderId: string;
+  text: string;
+  mentionedByPlatform?: boolean;
+  log?: (message: string) => void;
+}): Promise<WecomGroupDecision> {
+  const { account, chatId, senderId, log } = params;
+  const groups = account.config.groups;
+  const chat = resolveChatConfig(account, chatId);
+  const policy = resolveWecomGroupPolicy(account, chatId);
+  const stripped = stripWecomMention(params.text, groups?.mentionNames);
+  const wasMentioned = Boolean(params.mentionedByPlatform) || stripped.mentioned;
+  const base = { policy, wasMentioned, text: stripped.text, agentId: chat?.agentId ?? groups?.agentId };
+
+  if (chat?.enabled === false) return { ...base, allowed: false, reason: "chat disabled" };
+  if (groups?.policy === "allowlist" && !chat) return { ...base, allowed: false, reason: "chat not in groups.chats" };
+  if (policy === "never") return { ...base, allowed: false, reason: "group policy never" };
+  if ((policy === "mention" || policy === "allowlist") && !wasMentioned) {
+    return { ...base, allowed: false, reason: "not mentioned" };
+  }
+  // Checked after the mention so unaddressed chatter does not trigger directory lookups.
+  const allowFrom = chat?.allowFrom ?? groups?.allowFrom;
+  if (allowFrom && allowFrom.length > 0 && !(await matchesWecomPrincipal({ account, userId: senderId, entries: allowFrom, log }))) {
+    return { ...base, allowed: false, reason: `sender ${senderId} not allowed` };
+  }
+  return { ...base, allowed: true };
+}
+
+/**
+ * Adds a peer binding so `resolveAgentRoute` sends this chat to `agentId`
+ * (keeps OpenClaw's session key layout).
+ */
+export function withWecomGroupAgentBinding(params: {
+  cfg: ClawdbotConfig;
+  accountId: string;
+  chatId: string;
+  agentId?: string;
+}): ClawdbotConfig {
+  const { cfg, accountId, chatId, agentId } = params;
+  if (!agentId?.trim()) return cfg;
+  const bindings = Array.isArray((cfg as any).bindings) ? (cfg as any).bindings : [];
+  return {
+    ...cfg,
+    bindings: [
+      { agentId: agentId.trim(), match: { channel: "wecom", accountId, peer: { kind: "group", id: chatId } } },
+      ...bindings,
+    ],
+  } as ClawdbotConfig;
+}
@@ -3,8 +3,9 @@ import { spawn } from "node:child_process";
 import { tmpdir } from "node:os";
 import { basename, extname, join } from "node:path";
 
-import type { WecomAccountConfig } from "./types.js";
+import type { WecomAccountConfig, WecomNetworkConfig } from "./types.js";
 import { describeImageWithVision, resolveVisionConfig } from "./media-vision.js";
+import { fetchWithWecomProxy } from "./network.js";
 
 const DEFAULT_TEXT_EXTENSIONS = ["txt", "md", "log", "csv", "json", "xml", "yaml", "yml"];
 
@@ -38,6 +39,7 @@ export type ResolvedAutoAudioConfig = {
   prompt?: string;
   timeoutMs: number;
   maxBytes?: number;
+  network?: WecomNetworkConfig;
 };
 
 export type ResolvedAutoFileConfig = {
@@ -71,6 +73,7 @@ export function resolveAutoAudioConfig(cfg: WecomAccountConfig): ResolvedAutoAud
     prompt: audio.prompt?.trim() || undefined,
     timeoutMs: typeof audio.timeoutMs === "number" && audio.timeoutMs > 0 ? audio.timeoutMs : 15000,
     maxBytes: typeof audio.maxBytes === "number" && audio.maxBytes > 0 ? audio.maxBytes : undefined,
+    network: cfg.network,
   };
 }
 
@@ -163,7 +166,7 @@ export async function transcribeAudioWithOpenAI(params: {
     form.append("model", params.cfg.model);
     if (params.cfg.prompt) form.append("prompt", params.cfg.prompt);
 
-    const res = await fetch(`${params.cfg.baseUrl.replace(/\/$/, "")}/audio/transcriptions`, {
+    const res = await fetchWithWecomProxy(params.cfg.network, `${params.cfg.baseUrl.replace(/\/$/, "")}/audio/transcriptions`, {
       method: "POST",
       headers: {
         Authorization: `Bearer ${params.cfg.apiKey}`,
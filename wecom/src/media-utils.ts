@@ -1,8 +1,11 @@
 import { readdir, rm, stat } from "node:fs/promises";
 import { tmpdir } from "node:os";
-import { join } from "node:path";
+import { basename, extname, join } from "node:path";
 
+import { readWecomSendableFile } from "./file-roots.js";
 import type { WecomWebhookTarget } from "./monitor.js";
+import type { ResolvedWecomAccount } from "./types.js";
+import { fetchMediaFromUrl } from "./wecom-api.js";
 
 const cleanupExecuted = new Set<string>();
 
@@ -22,7 +25,9 @@ export async function cleanupMediaDir(
   dir: string,
   retentionHours?: number,
   cleanupOnStart?: boolean,
+  readOnly?: boolean,
 ): Promise<void> {
+  if (readOnly) return;
   if (cleanupOnStart === false) return;
   if (!retentionHours || retentionHours <= 0) return;
   if (cleanupExecuted.has(dir)) return;
@@ -47,7 +52,11 @@ export async function cleanupMediaDir(
 }
 
 export function resolveMediaTempDir(target: WecomWebhookTarget): string {
-  return target.account.config.media?.tempDir?.trim()
+  return resolveWecomMediaTempDir(target.account);
+}
+
+export function resolveWecomMediaTempDir(account: ResolvedWecomAccount): string {
+  return account.config.media?.tempDir?.trim()
     || join(tmpdir(), "openclaw-wecom");
 }
 
@@ -71,3 +80,149 @@ export function sanitizeFilename(name: string, fallback: string): string {
   const finalName = safe.slice(0, 120);
   return finalName || fallback;
 }
+
+export function normalizeMediaType(raw?: string): "image" | "voice" | "video" | "file" | null {
+  if (!raw) return null;
+  const value = raw.toLowerCase();
+  if (value === "image" || value === "voice" || value === "video" || value === "file") return value;
+  return null;
+}
+
+function pickString(...values: unknown[]): string {
+  for (const value of values) {
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return "";
+}
+
+export function resolveContentTypeFromExt(ext: string): string {
+  const value = ext.toLowerCase();
+  if (value === "png") return "image/png";
+  if (value === "gif") return "image/gif";
+  if (value === "jpg" || value === "jpeg") return "image/jpeg";
+  if (value === "webp") return "image/webp";
+  if (value === "bmp") return "image/bmp";
+  if (value === "amr") return "audio/amr";
+  if (value === "wav") return "audio/wav";
+  if (value === "mp3") return "audio/mpeg";
+  if (value === "m4a") return "audio/mp4";
+  if (value === "mp4") return "video/mp4";
+  if (value === "mov") return "video/quicktime";
+  if (value === "avi") return "video/x-msvideo";
+  if (value === "pdf") return "application/pdf";
+  if (value === "txt") return "text/plain";
+  if (value === "csv") return "text/csv";
+  if (value === "json") return "application/json";
+  if (value === "doc") return "application/msword";
+  if (value === "docx") return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+  if (value === "xls") return "application/vnd.ms-excel";
+  if (value === "xlsx") return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+  if (value === "ppt") return "application/vnd.ms-powerpoint";
+  if (value === "pptx") return "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+  if (value === "zip") return "application/zip";
+  return "application/octet-stream";
+}
+
+export function resolveMediaTypeFromContentType(contentType: string): "image" | "voice" | "video" | "file" {
+  const value = contentType.toLowerCase();
+  if (value.startsWith("image/")) return "image";
+  if (value.startsWith("audio/")) return "voice";
+  if (value.startsWith("video/")) return "video";
+  return "file";
+}
+
+export function stripFileProtocol(rawPath: string): string {
+  return rawPath.startsWith("file://") ? rawPath.replace(/^file:\/\//, "") : rawPath;
+}
+
+function parseBase64Input(input: string): { data: string; mimeType?: string } {
+  const match = input.match(/^data:([^;]+);base64,(.*)$/i);
+  if (match) {
+    return { data: match[2], mimeType: match[1] };
+  }
+  return { data: input };
+}
+
+function resolveOutboundMediaSpec(payload: any): {
+  type?: string;
+  url?: string;
+  path?: string;
+  base64?: string;
+  filename?: string;
+  mimeType?: string;
+} | null {
+  if (!payload || typeof payload !== "object") return null;
+  const mediaBlockRaw = payload.media ?? payload.attachment ?? payload.file ?? payload.files;
+  const mediaBlock = Array.isArray(mediaBlockRaw) ? mediaBlockRaw[0] : mediaBlockRaw;
+  const url = pickString(
+    payload.mediaUrl,
+    mediaBlock?.url,
+    mediaBlock?.mediaUrl,
+    mediaBlock?.fileUrl,
+    mediaBlock?.file_url,
+  );
+  const path = pickString(
+    payload.mediaPath,
+    payload.filePath,
+    mediaBlock?.path,
+    mediaBlock?.filePath,
+    mediaBlock?.localPath,
+  );
+  const base64 = pickString(
+    payload.mediaBase64,
+    payload.base64,
+    mediaBlock?.base64,
+    mediaBlock?.data,
+  );
+  const type = pickString(payload.mediaType, mediaBlock?.type, mediaBlock?.mediaType);
+  const filename = pickString(payload.filename, payload.fileName, mediaBlock?.filename, mediaBlock?.fileName, mediaBlock?.name);
+  const mimeType = pickString(payload.mimeType, payload.mediaMimeType, mediaBlock?.mimeType, mediaBlock?.contentType);
+  let finalUrl = url;
+  let finalPath = path;
+  if (!finalPath && finalUrl && (finalUrl.startsWith("/") || finalUrl.startsWith("file://"))) {
+    finalPath = finalUrl;
+    finalUrl = "";
+  }
+  if (!finalUrl && !finalPath && !base64) return null;
+  return { type, url: finalUrl, path: finalPath, base64, filename, mimeType };
+}
+
+export async function loadOutboundMedia(params: {
+  payload: any;
+  account: ResolvedWecomAccount;
+  maxBytes: number | undefined;
+}): Promise<{ buffer: Buffer; contentType: string; type: "image" | "voice" | "video" | "file"; filename: string } | null> {
+  const spec = resolveOutboundMediaSpec(params.payload);
+  if (!spec) return null;
+
+  let buffer: Buffer | null = null;
+  let contentType = spec.mimeType ?? "";
+  let filename = spec.filename ?? "";
+
+  if (spec.base64) {
+    const parsed = parseBase64Input(spec.base64);
+    buffer = Buffer.from(parsed.data, "base64");
+    if (!contentType && parsed.mimeType) contentType = parsed.mimeType;
+  } else if (spec.path) {
+    const file = await readWecomSendableFile(params.account, stripFileProtocol(spec.path));
+    buffer = file.buffer;
+    if (!filename) filename = basename(file.realPath);
+    if (!contentType) {
+      const ext = extname(file.realPath).replace(".", "");
+      contentType = resolveContentTypeFromExt(ext);
+    }
+  } else if (spec.url) {
+    const media = await fetchMediaFromUrl(spec.url, params.account, params.maxBytes);
+    buffer = media.buffer;
+    if (!contentType) contentType = media.contentType;
+  }
+
+  if (!buffer) return null;
+  if (params.maxBytes && buffer.length > params.maxBytes) return null;
+
+  const type = normalizeMediaType(spec.type) ?? resolveMediaTypeFromContentType(contentType || "application/octet-stream");
+  const ext = resolveExtFromContentType(contentType || "application/octet-stream", type);
+  const safeName = sanitizeFilename(filename, `${type}.${ext}`);
+
+  return { buffer, contentType: contentType || resolveContentTypeFromExt(ext), type, filename: safeName };
+}
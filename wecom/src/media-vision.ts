@@ -1,4 +1,5 @@
-import type { WecomAccountConfig } from "./types.js";
+import { fetchWithWecomProxy } from "./network.js";
+import type { WecomAccountConfig, WecomNetworkConfig } from "./types.js";
 
 export type VisionConfig = {
   enabled?: boolean;
@@ -9,6 +10,7 @@ export type VisionConfig = {
   maxTokens?: number;
   timeoutMs?: number;
   maxBytes?: number;
+  network?: WecomNetworkConfig;
 };
 
 function resolveBaseUrl(raw?: string): string | null {
@@ -41,6 +43,7 @@ export function resolveVisionConfig(accountConfig: WecomAccountConfig): VisionCo
     maxTokens: typeof vision.maxTokens === "number" ? vision.maxTokens : 400,
     timeoutMs: typeof vision.timeoutMs === "number" ? vision.timeoutMs : 15000,
     maxBytes: typeof vision.maxBytes === "number" ? vision.maxBytes : undefined,
+    network: accountConfig.network,
   };
 }
 
@@ -75,7 +78,7 @@ export async function describeImageWithVision(params: {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), config.timeoutMs ?? 15000);
     try {
-      const res = await fetch(`${config.baseUrl}/chat/completions`, {
+      const res = await fetchWithWecomProxy(config.network, `${config.baseUrl}/chat/completions`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
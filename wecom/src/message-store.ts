@@ -0,0 +1,84 @@
+export const WECOM_RECALL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const MAX_CONVERSATIONS = 500;
+const MAX_MESSAGES_PER_CONVERSATION = 50;
+
+export type WecomSentMessage = {
+  /** Id reported to OpenClaw (the primary WeCom msgid). */
+  messageId: string;
+  /** Every WeCom msgid that belongs to the message (text chunks, captions). */
+  msgids: string[];
+  accountId: string;
+  /** `user:<userid>` | `group:<chatid>` | `party:<id>` | `tag:<id>` */
+  conversation: string;
+  sentAt: number;
+};
+
+// conversation key -> messageId -> entry; both maps keep insertion order for eviction.
+const conversations = new Map<string, Map<string, WecomSentMessage>>();
+
+function conversationKey(accountId: string, conversation: string): string {
+  return `${accountId}|${conversation}`;
+}
+
+export function buildWecomConversation(params: { toUser?: string; chatId?: string }): string {
+  return params.chatId ? `group:${params.chatId}` : `user:${params.toUser ?? ""}`;
+}
+
+export function recordWecomSentMessage(params: {
+  accountId: string;
+  conversation: string;
+  msgids: Array<string | undefined>;
+  messageId?: string;
+}): WecomSentMessage | null {
+  const msgids = params.msgids.filter((id): id is string => Boolean(id));
+  if (msgids.length === 0) return null;
+  const entry: WecomSentMessage = {
+    messageId: params.messageId || msgids[0]!,
+    msgids,
+    accountId: params.accountId,
+    conversation: params.conversation,
+    sentAt: Date.now(),
+  };
+  const key = conversationKey(params.accountId, params.conversation);
+  let bucket = conversations.get(key);
+  if (bucket) {
+    conversations.delete(key);
+  } else {
+    bucket = new Map();
+  }
+  conversations.set(key, bucket);
+  bucket.set(entry.messageId, entry);
+  while (bucket.size > MAX_MESSAGES_PER_CONVERSATION) {
+    const oldest = bucket.keys().next().value;
+    if (oldest === undefined) break;
+    bucket.delete(oldest);
+  }
+  while (conversations.size > MAX_CONVERSATIONS) {
+    const oldest = conversations.keys().next().value;
+    if (oldest === undefined) break;
+    conversations.delete(oldest);
+  }
+  return entry;
+}
+
+export function findWecomSentMessage(accountId: string, messageId: string): WecomSentMessage | undefined {
+  for (const bucket of conversations.values()) {
+    const entry = bucket.get(messageId);
+    if (entry && entry.accountId === accountId) return entry;
+  }
+  return undefined;
+}
+
+/**
+ * Most recent first.
+ */
+export function listRecentWecomSentMessages(accountId: string, conversation: string, limit: number): WecomSentMessage[] {
+  const bucket = conversations.get(conversationKey(accountId, conversation));
+  if (!bucket) return [];
+  return Array.from(bucket.values()).reverse().slice(0, Math.max(0, limit));
+}
+
+export function removeWecomSentMessage(entry: WecomSentMessage): void {
+  conversations.get(conversationKey(entry.accountId, entry.conversation))?.delete(entry.messageId);
+}
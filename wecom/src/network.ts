@@ -0,0 +1,101 @@
+import { ProxyAgent, fetch as undiciFetch } from "undici";
+import type { Dispatcher } from "undici";
+
+import type { ResolvedWecomAccount, WecomNetworkConfig, WecomProxyConfig } from "./types.js";
+
+const DEFAULT_API_BASE_URL = "https://qyapi.weixin.qq.com";
+
+const proxyAgents = new Map<string, ProxyAgent>();
+
+/**
+ * `network.apiBaseUrl` without a trailing slash (privately deployed WeCom), or the public API host.
+ */
+export function resolveWecomApiBaseUrl(account: ResolvedWecomAccount): string {
+  const raw = account.config.network?.apiBaseUrl?.trim();
+  return raw ? raw.replace(/\/+$/, "") : DEFAULT_API_BASE_URL;
+}
+
+function normalizeProxyConfig(proxy: WecomNetworkConfig["proxy"]): WecomProxyConfig | null {
+  if (!proxy) return null;
+  const config = typeof proxy === "string" ? { url: proxy } : proxy;
+  return config.url?.trim() ? { ...config, url: config.url.trim() } : null;
+}
+
+/**
+ * `noProxy` entries match the host and its subdomains ("example.com", ".example.com" and
+ * "*.example.com" are equivalent); "*" matches everything. Ports are ignored.
+ */
+function bypassesProxy(hostname: string, noProxy: string[] = []): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  return noProxy.some((raw) => {
+    const entry = raw.trim().toLowerCase().replace(/:\d+$/, "");
+    if (!entry) return false;
+    if (entry === "*") return true;
+    const domain = entry.replace(/^\*?\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+function resolveProxyAgent(proxy: WecomProxyConfig): ProxyAgent {
+  const key = JSON.stringify([proxy.url, proxy.username ?? "", proxy.password ?? ""]);
+  let agent = proxyAgents.get(key);
+  if (!agent) {
+    const url = new URL(proxy.url);
+    const username = proxy.username ?? decodeURIComponent(url.username);
+    const password = proxy.password ?? decodeURIComponent(url.password);
+    url.username = "";
+    url.password = "";
+    agent = new ProxyAgent({
+      uri: url.toString(),
+      ...(username ? { token: `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}` } : {}),
+    });
+    proxyAgents.set(key, agent);
+  }
+  return agent;
+}
+
+function resolveRequestUrl(input: RequestInfo | URL): URL | null {
+  const raw = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  try {
+    return new URL(raw);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The bundled undici `fetch` does not recognise Node's global `FormData` and would send
+ * "[object FormData]"; encode it to a multipart buffer with the global `Response` first.
+ */
+async function encodeFormDataBody(init?: RequestInit): Promise<{ body: Buffer; headers: Record<string, string> } | null> {
+  if (!(init?.body instanceof FormData)) return null;
+  const encoded = new Response(init.body);
+  const headers = new Headers(init.headers);
+  headers.set("content-type", encoded.headers.get("content-type") ?? "multipart/form-data");
+  return {
+    body: Buffer.from(await encoded.arrayBuffer()),
+    headers: Object.fromEntries(headers.entries()),
+  };
+}
+
+/**
+ * `fetch` that goes through `network.proxy` unless the host is listed in `noProxy`.
+ * Used for WeCom API calls, media downloads and the vision / audio endpoints.
+ */
+export async function fetchWithWecomProxy(
+  network: WecomNetworkConfig | undefined,
+  input: RequestInfo | URL,
+  init?: RequestInit,
+): Promise<Response> {
+  const proxy = normalizeProxyConfig(network?.proxy);
+  const url = proxy ? resolveRequestUrl(input) : null;
+  if (!proxy || !url || bypassesProxy(url.hostname, proxy.noProxy)) {
+    return fetch(input, init);
+  }
+  const res = await undiciFetch(url, {
+    ...(init as Record<string, unknown>),
+    ...(await encodeFormDataBody(init)),
+    dispatcher: resolveProxyAgent(proxy) as Dispatcher,
+  });
+  return res as unknown as Response;
+}
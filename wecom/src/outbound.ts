@@ -0,0 +1,388 @@
+import type { ClawdbotConfig } from "openclaw/plugin-sdk";
+
+import { listEnabledWecomAccounts, resolveDefaultWecomAccountId, resolveWecomAccount } from "./accounts.js";
+import {
+  hasWecomMarkdownSyntax,
+  markdownToWecomMarkdown,
+  markdownToWecomText,
+  resolveReplyFormat,
+} from "./format.js";
+import { loadOutboundMedia } from "./media-utils.js";
+import {
+  findWecomSentMessage,
+  recordWecomSentMessage,
+  removeWecomSentMessage,
+  WECOM_RECALL_WINDOW_MS,
+} from "./message-store.js";
+import { richMessageToText, type WecomRichMessage } from "./rich-message.js";
+import { resolveWecomTarget } from "./target-resolver.js";
+import type { ResolvedWecomAccount } from "./types.js";
+import {
+  isWecomApiError,
+  listWecomRejectedRecipients,
+  recallWecomMessage,
+  sendWecomFile,
+  sendWecomImage,
+  sendWecomMarkdown,
+  sendWecomMpnews,
+  sendWecomNews,
+  sendWecomText,
+  sendWecomTextCard,
+  sendWecomVideo,
+  sendWecomVoice,
+  uploadWecomMedia,
+  type WecomApiError,
+  type WecomRecipient,
+  type WecomRejectedRecipient,
+  type WecomSendResult,
+} from "./wecom-api.js";
+
+export type WecomOutboundTargetKind = "user" | "group" | "party" | "tag" | "all";
+
+export type WecomOutboundTarget = {
+  kind: WecomOutboundTargetKind;
+  id: string;
+};
+
+export type WecomOutboundResult = {
+  channel: "wecom";
+  ok: boolean;
+  messageId: string;
+  chatId?: string;
+  error?: Error;
+  /** Recipients WeCom reported as invalid while the rest were delivered. */
+  rejected?: WecomRejectedRecipient[];
+};
+
+const TARGET_PREFIXES: Array<[RegExp, WecomOutboundTargetKind]> = [
+  [/^(user|userid|dm):/i, "user"],
+  [/^(group|chat|chatid|appchat):/i, "group"],
+  [/^(party|dept|department):/i, "party"],
+  [/^tag:/i, "tag"],
+];
+
+const ALL_TARGET_PATTERN = /^@all$/i;
+
+/**
+ * Parses `user:<userid>`, `group:<chatid>`, `party:<id>`, `tag:<id>` and `@all`.
+ * Bare ids are treated as userids.
+ */
+export function parseWecomOutboundTarget(raw: string): WecomOutboundTarget | null {
+  let value = raw.trim().replace(/^(wecom|wechatwork|wework|qywx):/i, "").trim();
+  if (!value) return null;
+  if (ALL_TARGET_PATTERN.test(value)) return { kind: "all", id: "@all" };
+  for (const [pattern, kind] of TARGET_PREFIXES) {
+    if (pattern.test(value)) {
+      value = value.replace(pattern, "").trim();
+      return value ? { kind, id: value } : null;
+    }
+  }
+  return { kind: "user", id: value };
+}
+
+/**
+ * Parses a recipient list such as `party:1|2,tag:3,zhangsan` (`,` / `;` between targets,
+ * `|` between ids of one kind). An entry without a prefix keeps the previous entry's kind,
+ * so `party:1,2` addresses two departments.
+ */
+export function parseWecomOutboundTargets(raw: string): WecomOutboundTarget[] | null {
+  const value = raw.trim().replace(/^(wecom|wechatwork|wework|qywx):/i, "").trim();
+  const targets: WecomOutboundTarget[] = [];
+  let kind: WecomOutboundTargetKind = "user";
+  for (const entry of value.split(/[,;，；]/)) {
+    if (!entry.trim()) continue;
+    const hasPrefix = ALL_TARGET_PATTERN.test(entry.trim()) || TARGET_PREFIXES.some(([pattern]) => pattern.test(entry.trim()));
+    const parsed = parseWecomOutboundTarget(hasPrefix ? entry : `${kind}:${entry.trim()}`);
+    if (!parsed) continue;
+    kind = parsed.kind === "all" ? "user" : parsed.kind;
+    for (const id of parsed.id.split("|")) {
+      if (id.trim()) targets.push({ kind: parsed.kind, id: id.trim() });
+    }
+  }
+  if (targets.length === 0) return null;
+  const unique = new Map(targets.map((target) => [`${target.kind}:${target.id}`, target]));
+  return Array.from(unique.values());
+}
+
+function hasAppCredentials(account: ResolvedWecomAccount): boolean {
+  return Boolean(account.corpId && account.corpSecret && account.agentId);
+}
+
+/**
+ * Outbound sends need app credentials. When no account is requested explicitly,
+ * fall back to the first enabled account that has them.
+ */
+export function resolveWecomOutboundAccount(cfg: ClawdbotConfig, accountId?: string | null): ResolvedWecomAccount {
+  if (accountId?.trim()) {
+    return resolveWecomAccount({ cfg, accountId });
+  }
+  const preferred = resolveWecomAccount({ cfg, accountId: resolveDefaultWecomAccountId(cfg) });
+  if (preferred.enabled && hasAppCredentials(preferred)) return preferred;
+  return listEnabledWecomAccounts(cfg).find((account) => hasAppCredentials(account)) ?? preferred;
+}
+
+/**
+ * `appchat/send` takes a single chatid, so a group target cannot be combined with others.
+ */
+function toRecipient(targets: WecomOutboundTarget[]): WecomRecipient {
+  const group = targets.find((target) => target.kind === "group");
+  if (group) {
+    if (targets.length > 1) throw new Error("WeCom group targets cannot be combined with other recipients");
+    return { toUser: "", chatId: group.id };
+  }
+  const idsOf = (kind: WecomOutboundTargetKind) => targets.filter((target) => target.kind === kind).map((target) => target.id);
+  return {
+    toUser: "",
+    toUsers: idsOf("user"),
+    toParties: idsOf("party"),
+    toTags: idsOf("tag"),
+    all: targets.some((target) => target.kind === "all"),
+  };
+}
+
+function describeTargets(targets: WecomOutboundTarget[]): string {
+  return targets.map((target) => (target.kind === "all" ? "@all" : `${target.kind}:${target.id}`)).join(",");
+}
+
+/**
+ * Throws when WeCom rejected every requested recipient; otherwise returns the rejected ones
+ * so partial deliveries can be reported per recipient.
+ */
+function ensureDelivered(targets: WecomOutboundTarget[], result: WecomSendResult): WecomRejectedRecipient[] {
+  const rejected = listWecomRejectedRecipients(result);
+  if (rejected.length === 0) return [];
+  const rejectedKeys = new Set(rejected.map((item) => `${item.kind}:${item.id}`));
+  const allRejected = targets.every((target) => rejectedKeys.has(`${target.kind}:${target.id}`));
+  if (!allRejected) return rejected;
+  const err = new Error(`WeCom rejected target: ${rejected.map((item) => `${item.kind}:${item.id}`).join(", ")}`) as WecomApiError;
+  err.errcode = 0;
+  if (result.invaliduser) err.invaliduser = result.invaliduser;
+  if (result.invalidparty) err.invalidparty = result.invalidparty;
+  if (result.invalidtag) err.invalidtag = result.invalidtag;
+  throw err;
+}
+
+function buildResult(targets: WecomOutboundTarget[], result: WecomSendResult, rejected: WecomRejectedRecipient[]): WecomOutboundResult {
+  const group = targets.length === 1 && targets[0]!.kind === "group" ? targets[0]! : undefined;
+  return {
+    channel: "wecom",
+    ok: true,
+    messageId: result.msgid ?? "",
+    chatId: group?.id,
+    ...(rejected.length > 0 ? { rejected } : {}),
+  };
+}
+
+function mergeRejected(...lists: WecomRejectedRecipient[][]): WecomRejectedRecipient[] {
+  const merged = new Map(lists.flat().map((item) => [`${item.kind}:${item.id}`, item]));
+  return Array.from(merged.values());
+}
+
+function collectMsgids(...results: WecomSendResult[]): string[] {
+  return results.flatMap((result) => result.msgids ?? (result.msgid ? [result.msgid] : []));
+}
+
+function recordSent(account: ResolvedWecomAccount, targets: WecomOutboundTarget[], messageId: string | undefined, msgids: string[]): void {
+  recordWecomSentMessage({
+    accountId: account.accountId,
+    conversation: describeTargets(targets),
+    messageId,
+    msgids,
+  });
+}
+
+function buildFailure(err: unknown): WecomOutboundResult {
+  return { channel: "wecom", ok: false, messageId: "", error: err instanceof Error ? err : new Error(String(err)) };
+}
+
+/**
+ * Parses and resolves a recipient list; names, emails and mobiles become WeCom ids
+ * (see `resolveWecomTarget`).
+ */
+export async function resolveWecomOutboundTargets(account: ResolvedWecomAccount, raw: string): Promise<WecomOutboundTarget[]> {
+  const targets = parseWecomOutboundTargets(raw);
+  if (!targets) {
+    throw new Error("WeCom target required: user:<userid|姓名|邮箱|手机号> | group:<chatid|群名> | party:<id|部门名> | tag:<id> | @all");
+  }
+  const resolved: WecomOutboundTarget[] = [];
+  for (const target of targets) {
+    resolved.push(await resolveWecomTarget(account, target));
+  }
+  return resolved;
+}
+
+/**
+ * Sends agent markdown honoring `replyFormat`. WeCom markdown is used for
+ * `markdown` (always) or `auto` (when the text has renderable formatting);
+ * a rejected markdown message is resent as plain text.
+ */
+export async function sendWecomReplyText(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  text: string;
+  log?: (message: string) => void;
+}): Promise<WecomSendResult> {
+  const { account, text, log, ...recipient } = params;
+  const format = resolveReplyFormat(account.config.replyFormat);
+  const useMarkdown = format === "markdown" || (format === "auto" && hasWecomMarkdownSyntax(text));
+  if (useMarkdown) {
+    const markdown = markdownToWecomMarkdown(text);
+    if (markdown) {
+      try {
+        return await sendWecomMarkdown({ account, ...recipient, markdown });
+      } catch (err) {
+        if (!isWecomApiError(err)) throw err;
+        log?.(`[wecom] markdown reply rejected (errcode=${err.errcode}), falling back to text`);
+      }
+    }
+  }
+  const plain = markdownToWecomText(text);
+  if (!plain) return {};
+  return await sendWecomText({ account, ...recipient, text: plain });
+}
+
+/**
+ * Sends a textcard / news / mpnews message; a rejected card is resent as plain text.
+ */
+export async function sendWecomRichMessage(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  message: WecomRichMessage;
+  log?: (message: string) => void;
+}): Promise<WecomSendResult> {
+  const { account, message, log, ...recipient } = params;
+  try {
+    if (message.type === "textcard") {
+      return await sendWecomTextCard({ account, ...recipient, card: message.textcard });
+    }
+    if (message.type === "news") {
+      return await sendWecomNews({ account, ...recipient, articles: message.articles });
+    }
+    return await sendWecomMpnews({ account, ...recipient, articles: message.articles });
+  } catch (err) {
+    if (!isWecomApiError(err)) throw err;
+    log?.(`[wecom] ${message.type} rejected (errcode=${err.errcode}), falling back to text`);
+  }
+  const text = richMessageToText(message);
+  if (!text) return {};
+  return await sendWecomText({ account, ...recipient, text });
+}
+
+export async function sendWecomOutboundText(params: {
+  account: ResolvedWecomAccount;
+  to: string;
+  text: string;
+}): Promise<WecomOutboundResult> {
+  try {
+    const targets = await resolveWecomOutboundTargets(params.account, params.to);
+    if (!params.text?.trim()) {
+      return { channel: "wecom", ok: true, messageId: "" };
+    }
+    const result = await sendWecomReplyText({ account: params.account, ...toRecipient(targets), text: params.text });
+    const rejected = ensureDelivered(targets, result);
+    recordSent(params.account, targets, result.msgid, collectMsgids(result));
+    return buildResult(targets, result, rejected);
+  } catch (err) {
+    return buildFailure(err);
+  }
+}
+
+export async function sendWecomOutboundMedia(params: {
+  account: ResolvedWecomAccount;
+  to: string;
+  mediaUrl: string;
+  text?: string;
+  maxBytes?: number;
+}): Promise<WecomOutboundResult> {
+  const { account } = params;
+  try {
+    const targets = await resolveWecomOutboundTargets(params.account, params.to);
+    const maxBytes = params.maxBytes ?? account.config.media?.maxBytes;
+    const outbound = await loadOutboundMedia({
+      payload: { mediaUrl: params.mediaUrl },
+      account,
+      maxBytes: typeof maxBytes === "number" && maxBytes > 0 ? maxBytes : undefined,
+    });
+    if (!outbound) {
+      throw new Error(`WeCom media unavailable or too large: ${params.mediaUrl}`);
+    }
+    const mediaId = await uploadWecomMedia({
+      account,
+      type: outbound.type,
+      buffer: outbound.buffer,
+      filename: outbound.filename,
+    });
+    const recipient = toRecipient(targets);
+    let result: WecomSendResult;
+    if (outbound.type === "image") {
+      result = await sendWecomImage({ account, ...recipient, mediaId });
+    } else if (outbound.type === "voice") {
+      result = await sendWecomVoice({ account, ...recipient, mediaId });
+    } else if (outbound.type === "video") {
+      result = await sendWecomVideo({ account, ...recipient, mediaId, title: outbound.filename });
+    } else {
+      result = await sendWecomFile({ account, ...recipient, mediaId });
+    }
+    let rejected = ensureDelivered(targets, result);
+
+    const msgids = collectMsgids(result);
+    if (params.text?.trim()) {
+      const textResult = await sendWecomReplyText({ account, ...recipient, text: params.text });
+      rejected = mergeRejected(rejected, ensureDelivered(targets, textResult));
+      msgids.push(...collectMsgids(textResult));
+    }
+    recordSent(account, targets, result.msgid, msgids);
+    return buildResult(targets, result, rejected);
+  } catch (err) {
+    return buildFailure(err);
+  }
+}
+
+export type WecomRecallResult = {
+  messageId: string;
+  recalled: string[];
+  failed: Array<{ msgid: string; error: string }>;
+};
+
+/**
+ * Recalls a message sent by this plugin. Known ids expand to every chunk that was
+ * sent for them; unknown ids are treated as raw WeCom msgids. Callers decide who may
+ * recall which id (`/recall`, the `unsend` action).
+ */
+export async function recallWecomSentMessage(params: {
+  account: ResolvedWecomAccount;
+  messageId: string;
+}): Promise<WecomRecallResult> {
+  const { account, messageId } = params;
+  const entry = findWecomSentMessage(account.accountId, messageId);
+  if (entry && Date.now() - entry.sentAt > WECOM_RECALL_WINDOW_MS) {
+    throw new Error(`WeCom message ${messageId} is older than 24 hours and can no longer be recalled`);
+  }
+  const result: WecomRecallResult = { messageId, recalled: [], failed: [] };
+  for (const msgid of entry?.msgids ?? [messageId]) {
+    try {
+      await recallWecomMessage({ account, msgid });
+      result.recalled.push(msgid);
+    } catch (err) {
+      result.failed.push({ msgid, error: String(err) });
+    }
+  }
+  if (entry && result.failed.length === 0) {
+    removeWecomSentMessage(entry);
+  }
+  return result;
+}
+
+export async function sendWecomOutboundRichMessage(params: {
+  account: ResolvedWecomAccount;
+  to: string;
+  message: WecomRichMessage;
+}): Promise<WecomOutboundResult> {
+  try {
+    const targets = await resolveWecomOutboundTargets(params.account, params.to);
+    const result = await sendWecomRichMessage({ account: params.account, ...toRecipient(targets), message: params.message });
+    const rejected = ensureDelivered(targets, result);
+    recordSent(params.account, targets, result.msgid, collectMsgids(result));
+    return buildResult(targets, result, rejected);
+  } catch (err) {
+    return buildFailure(err);
+  }
+}
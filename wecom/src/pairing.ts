@@ -0,0 +1,172 @@
+import { mkdir, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { PluginRuntime } from "openclaw/plugin-sdk";
+
+// Same files, TTL and lock layout as OpenClaw's pairing store, so `/approve` and
+// `openclaw pairing approve wecom <code>` work on the same requests.
+const PAIRING_CHANNEL = "wecom";
+const PAIRING_TTL_MS = 60 * 60 * 1000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRIES = 10;
+
+export type WecomPairingRequest = {
+  id: string;
+  code: string;
+  createdAt: string;
+  lastSeenAt?: string;
+  meta?: Record<string, string>;
+};
+
+export function normalizeWecomAllowEntry(raw: string): string {
+  return raw.trim().replace(/^(wecom|user|userid):/i, "").toLowerCase();
+}
+
+function resolveCredentialsDir(core: PluginRuntime | null): string {
+  const override = process.env.OPENCLAW_OAUTH_DIR?.trim();
+  if (override) return override;
+  const stateDir = core?.state?.resolveStateDir?.() ?? join(homedir(), ".openclaw");
+  return join(stateDir, "credentials");
+}
+
+function resolvePairingPath(core: PluginRuntime | null): string {
+  return join(resolveCredentialsDir(core), `${PAIRING_CHANNEL}-pairing.json`);
+}
+
+function resolveAllowFromPath(core: PluginRuntime | null): string {
+  return join(resolveCredentialsDir(core), `${PAIRING_CHANNEL}-allowFrom.json`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readJson<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, "utf8")) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+async function writeJson(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(value, null, 2)}\n`, { encoding: "utf8", mode: 0o600 });
+}
+
+/**
+ * `<file>.lock` directory lock, compatible with the lockfile OpenClaw takes on these files.
+ */
+async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const lockPath = `${path}.lock`;
+  await mkdir(dirname(path), { recursive: true });
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      await mkdir(lockPath);
+      break;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      const info = await stat(lockPath).catch(() => null);
+      if (info && Date.now() - info.mtimeMs > LOCK_STALE_MS) {
+        await rm(lockPath, { recursive: true, force: true });
+        continue;
+      }
+      if (attempt >= LOCK_RETRIES) throw new Error(`WeCom pairing store is locked: ${lockPath}`);
+      await sleep(Math.min(100 * 2 ** attempt, 2_000));
+    }
+  }
+  try {
+    return await fn();
+  } finally {
+    await rm(lockPath, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+function isExpired(request: WecomPairingRequest, now: number): boolean {
+  const createdAt = Date.parse(request.createdAt);
+  return !Number.isFinite(createdAt) || now - createdAt > PAIRING_TTL_MS;
+}
+
+export async function listWecomPairingRequests(core: PluginRuntime | null): Promise<WecomPairingRequest[]> {
+  const store = await readJson<{ requests?: WecomPairingRequest[] }>(resolvePairingPath(core), {});
+  const now = Date.now();
+  return (Array.isArray(store.requests) ? store.requests : [])
+    .filter((request) => request && typeof request.id === "string" && typeof request.code === "string")
+    .filter((request) => !isExpired(request, now));
+}
+
+/**
+ * Approves a pending pairing code: removes the request and adds the sender to the
+ * paired allowlist. Returns null for unknown or expired codes.
+ */
+export async function approveWecomPairingCode(params: {
+  core: PluginRuntime | null;
+  code: string;
+}): Promise<WecomPairingRequest | null> {
+  const code = params.code.trim().toUpperCase();
+  if (!code) return null;
+  const pairingPath = resolvePairingPath(params.core);
+  const approved = await withFileLock(pairingPath, async () => {
+    const store = await readJson<{ version?: number; requests?: WecomPairingRequest[] }>(pairingPath, {});
+    const now = Date.now();
+    const requests = (Array.isArray(store.requests) ? store.requests : []).filter((request) => !isExpired(request, now));
+    const index = requests.findIndex((request) => String(request.code ?? "").toUpperCase() === code);
+    const entry = index >= 0 ? requests.splice(index, 1)[0] : undefined;
+    await writeJson(pairingPath, { version: 1, requests });
+    return entry ?? null;
+  });
+  if (!approved) return null;
+
+  const allowPath = resolveAllowFromPath(params.core);
+  await withFileLock(allowPath, async () => {
+    const store = await readJson<{ allowFrom?: string[] }>(allowPath, {});
+    const current = (Array.isArray(store.allowFrom) ? store.allowFrom : []).map((entry) => normalizeWecomAllowEntry(String(entry)));
+    const id = normalizeWecomAllowEntry(approved.id);
+    if (id && !current.includes(id)) {
+      await writeJson(allowPath, { version: 1, allowFrom: [...current, id] });
+    }
+  });
+  return approved;
+}
+
+/**
+ * Userids approved through pairing (either `/approve` or the OpenClaw CLI).
+ */
+export async function readWecomPairedUsers(core: PluginRuntime | null): Promise<string[]> {
+  if (core?.channel?.pairing?.readAllowFromStore) {
+    try {
+      const entries: string[] = await core.channel.pairing.readAllowFromStore(PAIRING_CHANNEL);
+      return entries.map(normalizeWecomAllowEntry).filter(Boolean);
+    } catch {
+      // fall back to reading the file
+    }
+  }
+  const store = await readJson<{ allowFrom?: string[] }>(resolveAllowFromPath(core), {});
+  return (Array.isArray(store.allowFrom) ? store.allowFrom : []).map((entry) => normalizeWecomAllowEntry(String(entry)));
+}
+
+/**
+ * Creates (or refreshes) a pairing request. `created` is false when the sender already
+ * has a pending code; `code` is empty when too many requests are pending.
+ */
+export async function upsertWecomPairingRequest(params: {
+  core: PluginRuntime;
+  userId: string;
+  name?: string;
+}): Promise<{ code: string; created: boolean }> {
+  return await params.core.channel.pairing.upsertPairingRequest({
+    channel: PAIRING_CHANNEL,
+    id: params.userId,
+    meta: params.name ? { name: params.name } : undefined,
+  });
+}
+
+export function buildWecomPairingReply(core: PluginRuntime, userId: string, code: string): string {
+  const reply: string = core.channel.pairing.buildPairingReply({
+    channel: PAIRING_CHANNEL,
+    idLine: `Your WeCom userid: ${userId}`,
+    code,
+  });
+  return `${reply}\n\n管理员也可在企业微信中发送：/approve ${code}`;
+}
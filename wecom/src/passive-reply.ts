@@ -0,0 +1,108 @@
+import crypto from "node:crypto";
+
+import { computeWecomMsgSignature, encryptWecomPlaintext } from "./crypto.js";
+import type { ResolvedWecomAccount } from "./types.js";
+
+const PASSIVE_TIMEOUT_DEFAULT_MS = 3000;
+const PASSIVE_TIMEOUT_MIN_MS = 200;
+// WeCom waits 5s for the callback response; keep headroom for encryption and network.
+const PASSIVE_TIMEOUT_MAX_MS = 4500;
+const PASSIVE_TEXT_MAX_BYTES = 2048;
+
+/**
+ * Collects text answers while the callback HTTP response is still open.
+ * `offer` returns false once the response was sent; callers then use the active API.
+ */
+export type PassiveReplySink = {
+  offer: (text: string) => boolean;
+  release: () => void;
+};
+
+export type PassiveReplyHandle = {
+  sink: PassiveReplySink;
+  released: Promise<void>;
+  /** Closes the sink and returns the collected texts. */
+  close: () => string[];
+};
+
+export function createPassiveReplySink(): PassiveReplyHandle {
+  const texts: string[] = [];
+  let closed = false;
+  let release: () => void = () => {};
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  return {
+    sink: {
+      offer: (text) => {
+        if (closed) return false;
+        texts.push(text);
+        return true;
+      },
+      release: () => release(),
+    },
+    released,
+    close: () => {
+      closed = true;
+      release();
+      return texts.splice(0);
+    },
+  };
+}
+
+export function resolvePassiveReplyTimeoutMs(account: ResolvedWecomAccount): number {
+  const raw = account.config.passiveReply?.timeoutMs;
+  if (typeof raw !== "number" || !Number.isFinite(raw)) return PASSIVE_TIMEOUT_DEFAULT_MS;
+  return Math.min(Math.max(raw, PASSIVE_TIMEOUT_MIN_MS), PASSIVE_TIMEOUT_MAX_MS);
+}
+
+export function isPassiveReplyEnabled(account: ResolvedWecomAccount): boolean {
+  return account.config.passiveReply?.enabled !== false;
+}
+
+export function fitsPassiveReply(text: string): boolean {
+  return Boolean(text) && Buffer.byteLength(text, "utf8") <= PASSIVE_TEXT_MAX_BYTES;
+}
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+/**
+ * Encrypted passive text reply for an app callback (the body of the HTTP response).
+ */
+export function buildWecomPassiveTextReply(params: {
+  account: ResolvedWecomAccount;
+  toUser: string;
+  text: string;
+  nonce?: string;
+}): string {
+  const { account, toUser, text } = params;
+  const token = account.callbackToken ?? "";
+  const aesKey = account.callbackAesKey ?? "";
+  const corpId = account.corpId ?? "";
+  if (!token || !aesKey) {
+    throw new Error("WeCom passive reply requires callbackToken and callbackAesKey");
+  }
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = params.nonce || crypto.randomBytes(8).toString("hex");
+  const plaintext = [
+    "<xml>",
+    `<ToUserName>${cdata(toUser)}</ToUserName>`,
+    `<FromUserName>${cdata(corpId)}</FromUserName>`,
+    `<CreateTime>${timestamp}</CreateTime>`,
+    `<MsgType>${cdata("text")}</MsgType>`,
+    `<Content>${cdata(text)}</Content>`,
+    "</xml>",
+  ].join("");
+  const encrypt = encryptWecomPlaintext({ encodingAESKey: aesKey, receiveId: corpId, plaintext });
+  const signature = computeWecomMsgSignature({ token, timestamp, nonce, encrypt });
+  return [
+    "<xml>",
+    `<Encrypt>${cdata(encrypt)}</Encrypt>`,
+    `<MsgSignature>${cdata(signature)}</MsgSignature>`,
+    `<TimeStamp>${timestamp}</TimeStamp>`,
+    `<Nonce>${cdata(nonce)}</Nonce>`,
+    "</xml>",
+  ].join("");
+}
@@ -0,0 +1,287 @@
+import type { ResolvedWecomAccount } from "./types.js";
+
+// 45009: API frequency limit, 45033: too many concurrent calls, -1: system busy.
+export const WECOM_THROTTLE_ERRCODES = new Set([45009, 45033, -1]);
+
+const BACKOFF_MAX_MS = 30_000;
+const DEFAULT_MAX_CONCURRENT = 3;
+const DEFAULT_MIN_INTERVAL_MS = 200;
+// Per-member windows pile up; idle ones are dropped once there are this many.
+const WINDOW_PRUNE_THRESHOLD = 1_000;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+type WindowLimit = { windowMs: number; max: number };
+
+// WeCom frequency limits (developer docs, "接口调用频率限制"): every corp may call a single
+// API at most 10,000 times per minute and 150,000 times per hour.
+const DEFAULT_ENDPOINT_LIMITS: WindowLimit[] = [
+  { windowMs: MINUTE_MS, max: 10_000 },
+  { windowMs: HOUR_MS, max: 150_000 },
+];
+const ENDPOINT_LIMITS: Record<string, WindowLimit[]> = {
+  // 20,000 recipients per minute / 300,000 per hour for the corp.
+  "appchat/send": [
+    { windowMs: MINUTE_MS, max: 20_000 },
+    { windowMs: HOUR_MS, max: 300_000 },
+  ],
+};
+// message/send: one app may message the same member 30 times per minute, 1,000 per hour.
+const RECIPIENT_LIMITS: WindowLimit[] = [
+  { windowMs: MINUTE_MS, max: 30 },
+  { windowMs: HOUR_MS, max: 1_000 },
+];
+
+export type WecomRateLimitStats = {
+  /** Calls waiting for a quota window or a concurrency slot right now. */
+  queued: number;
+  calls: number;
+  /** Calls answered with 45009 / 45033 / -1 and retried after a backoff. */
+  throttled: number;
+  /** Retries after network errors or HTTP 5xx. */
+  retries: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  lastWaitMs: number;
+  lastThrottledAt?: number;
+  /** Concurrency limit in effect for the account's corp (strictest of the corp's accounts). */
+  maxConcurrent: number;
+  minIntervalMs: number;
+  /** Accounts sharing the corp limiter. */
+  corpAccounts: string[];
+};
+
+type CorpLimitSettings = { maxConcurrent: number; minIntervalMs: number };
+type AccountStats = Omit<WecomRateLimitStats, keyof CorpLimitSettings | "corpAccounts">;
+
+class ConcurrencyLimiter {
+  private maxConcurrent: number;
+  private minInterval: number;
+  private running = 0;
+  private lastExecution = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(maxConcurrent: number, minInterval: number) {
+    this.maxConcurrent = maxConcurrent;
+    this.minInterval = minInterval;
+  }
+
+  configure(maxConcurrent: number, minInterval: number): void {
+    this.maxConcurrent = maxConcurrent;
+    this.minInterval = minInterval;
+    this.processQueue();
+  }
+
+  async acquire(): Promise<() => void> {
+    await new Promise<void>((resolve) => {
+      this.queue.push(resolve);
+      this.processQueue();
+    });
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.running -= 1;
+      this.processQueue();
+    };
+  }
+
+  private processQueue(): void {
+    if (this.running >= this.maxConcurrent || this.queue.length === 0) return;
+    const waitTime = Math.max(0, this.lastExecution + this.minInterval - Date.now());
+    if (waitTime > 0) {
+      setTimeout(() => this.processQueue(), waitTime);
+      return;
+    }
+    this.running += 1;
+    this.lastExecution = Date.now();
+    this.queue.shift()!();
+  }
+}
+
+type WindowState = { windowStart: number; count: number };
+
+const corpLimiters = new Map<string, ConcurrencyLimiter>();
+// corp -> accountId -> that account's network.maxConcurrent / minIntervalMs.
+const corpAccountSettings = new Map<string, Map<string, CorpLimitSettings>>();
+const accountCorps = new Map<string, string>();
+const windows = new Map<string, WindowState[]>();
+const accountStats = new Map<string, AccountStats>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function resolveStats(accountId: string): AccountStats {
+  let stats = accountStats.get(accountId);
+  if (!stats) {
+    stats = { queued: 0, calls: 0, throttled: 0, retries: 0, totalWaitMs: 0, maxWaitMs: 0, lastWaitMs: 0 };
+    accountStats.set(accountId, stats);
+  }
+  return stats;
+}
+
+function resolveAccountSettings(account: ResolvedWecomAccount): CorpLimitSettings {
+  const cfg = account.config.network ?? {};
+  return {
+    maxConcurrent: typeof cfg.maxConcurrent === "number" && cfg.maxConcurrent > 0 ? cfg.maxConcurrent : DEFAULT_MAX_CONCURRENT,
+    minIntervalMs: typeof cfg.minIntervalMs === "number" && cfg.minIntervalMs >= 0 ? cfg.minIntervalMs : DEFAULT_MIN_INTERVAL_MS,
+  };
+}
+
+/**
+ * WeCom counts concurrency per corp, so accounts of one corp share a limiter running with
+ * the strictest settings among them (lowest maxConcurrent, highest minIntervalMs).
+ */
+function resolveCorpSettings(corpKey: string): CorpLimitSettings {
+  const settings = Array.from(corpAccountSettings.get(corpKey)?.values() ?? []);
+  if (settings.length === 0) return { maxConcurrent: DEFAULT_MAX_CONCURRENT, minIntervalMs: DEFAULT_MIN_INTERVAL_MS };
+  return {
+    maxConcurrent: Math.min(...settings.map((item) => item.maxConcurrent)),
+    minIntervalMs: Math.max(...settings.map((item) => item.minIntervalMs)),
+  };
+}
+
+/**
+ * Adds the account's network settings to its corp limiter. Called for every account when the
+ * gateway starts, so the effective limits do not depend on which account calls first.
+ */
+export function registerWecomRateLimitAccount(account: ResolvedWecomAccount): void {
+  const corpKey = account.corpId || account.accountId;
+  const previousCorp = accountCorps.get(account.accountId);
+  if (previousCorp && previousCorp !== corpKey) {
+    corpAccountSettings.get(previousCorp)?.delete(account.accountId);
+    const { maxConcurrent, minIntervalMs } = resolveCorpSettings(previousCorp);
+    corpLimiters.get(previousCorp)?.configure(maxConcurrent, minIntervalMs);
+  }
+  accountCorps.set(account.accountId, corpKey);
+  let accounts = corpAccountSettings.get(corpKey);
+  if (!accounts) {
+    accounts = new Map();
+    corpAccountSettings.set(corpKey, accounts);
+  }
+  accounts.set(account.accountId, resolveAccountSettings(account));
+  const { maxConcurrent, minIntervalMs } = resolveCorpSettings(corpKey);
+  const limiter = corpLimiters.get(corpKey);
+  if (limiter) limiter.configure(maxConcurrent, minIntervalMs);
+  else corpLimiters.set(corpKey, new ConcurrencyLimiter(maxConcurrent, minIntervalMs));
+}
+
+function resolveCorpLimiter(account: ResolvedWecomAccount): ConcurrencyLimiter {
+  const corpKey = account.corpId || account.accountId;
+  // Accounts used before the gateway started them (outbound-only) join on first use.
+  if (!corpAccountSettings.get(corpKey)?.has(account.accountId)) registerWecomRateLimitAccount(account);
+  return corpLimiters.get(corpKey)!;
+}
+
+// Drops window state untouched for an hour once the map grows past the threshold.
+function pruneWindows(now: number): void {
+  if (windows.size <= WINDOW_PRUNE_THRESHOLD) return;
+  for (const [key, state] of windows.entries()) {
+    if (state.every((window) => now - window.windowStart >= HOUR_MS)) windows.delete(key);
+  }
+}
+
+/**
+ * Counts the call in every window once all of them have room; otherwise waits for the
+ * earliest window to roll over.
+ */
+async function acquireWindows(scopes: Array<{ key: string; limits: WindowLimit[] }>): Promise<void> {
+  pruneWindows(Date.now());
+  for (;;) {
+    const now = Date.now();
+    let waitMs = 0;
+    const states = scopes.map(({ key, limits }) => {
+      let state = windows.get(key);
+      if (!state) {
+        state = limits.map(() => ({ windowStart: now, count: 0 }));
+        windows.set(key, state);
+      }
+      limits.forEach((limit, index) => {
+        const window = state![index]!;
+        if (now - window.windowStart >= limit.windowMs) {
+          window.windowStart = now;
+          window.count = 0;
+        }
+        if (window.count >= limit.max) waitMs = Math.max(waitMs, window.windowStart + limit.windowMs - now);
+      });
+      return state;
+    });
+    if (waitMs <= 0) {
+      for (const state of states) {
+        for (const window of state) window.count += 1;
+      }
+      return;
+    }
+    await sleep(waitMs);
+  }
+}
+
+/**
+ * Runs a WeCom API call inside the corp's concurrency limiter and the per-(corp, endpoint)
+ * quota windows. `recipient` adds the per-member message/send limit.
+ */
+export async function runWecomRateLimited<T>(
+  account: ResolvedWecomAccount,
+  endpoint: string,
+  fn: () => Promise<T>,
+  options?: { recipient?: string },
+): Promise<T> {
+  const corpKey = account.corpId || account.accountId;
+  const stats = resolveStats(account.accountId);
+  const scopes = [{ key: `${corpKey}|${endpoint}`, limits: ENDPOINT_LIMITS[endpoint] ?? DEFAULT_ENDPOINT_LIMITS }];
+  if (options?.recipient && endpoint === "message/send") {
+    scopes.push({ key: `${corpKey}|${account.agentId ?? ""}|${endpoint}|${options.recipient}`, limits: RECIPIENT_LIMITS });
+  }
+  const startedAt = Date.now();
+  stats.queued += 1;
+  let release: () => void;
+  try {
+    await acquireWindows(scopes);
+    release = await resolveCorpLimiter(account).acquire();
+  } finally {
+    stats.queued -= 1;
+  }
+  const waitMs = Date.now() - startedAt;
+  stats.calls += 1;
+  stats.lastWaitMs = waitMs;
+  stats.totalWaitMs += waitMs;
+  stats.maxWaitMs = Math.max(stats.maxWaitMs, waitMs);
+  try {
+    return await fn();
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Exponential backoff with equal jitter: a random delay in [ceiling / 2, ceiling], where
+ * ceiling is base * 2^attempt, capped.
+ */
+export function resolveWecomBackoffMs(attempt: number, baseMs: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, Math.max(baseMs, 1) * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+export function isWecomThrottleErrcode(json: any): boolean {
+  return typeof json?.errcode === "number" && WECOM_THROTTLE_ERRCODES.has(json.errcode);
+}
+
+export function recordWecomThrottled(account: ResolvedWecomAccount): void {
+  const stats = resolveStats(account.accountId);
+  stats.throttled += 1;
+  stats.lastThrottledAt = Date.now();
+}
+
+export function recordWecomRetry(account: ResolvedWecomAccount): void {
+  resolveStats(account.accountId).retries += 1;
+}
+
+export function getWecomRateLimitStats(accountId: string): WecomRateLimitStats {
+  const corpKey = accountCorps.get(accountId) ?? accountId;
+  return {
+    ...resolveStats(accountId),
+    ...resolveCorpSettings(corpKey),
+    corpAccounts: Array.from(corpAccountSettings.get(corpKey)?.keys() ?? [accountId]),
+  };
+}
@@ -0,0 +1,125 @@
+import type { WecomMpnewsArticle, WecomNewsArticle, WecomTextCard } from "./wecom-api.js";
+
+export const WECOM_NEWS_MAX_ARTICLES = 8;
+
+export type WecomRichMessage =
+  | { type: "textcard"; textcard: WecomTextCard }
+  | { type: "news"; articles: WecomNewsArticle[] }
+  | { type: "mpnews"; articles: WecomMpnewsArticle[] };
+
+export type WecomRichMessageType = WecomRichMessage["type"];
+
+function pickText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function normalizeTextCard(raw: any): WecomTextCard | null {
+  const title = pickText(raw?.title);
+  const url = pickText(raw?.url);
+  if (!title || !url) return null;
+  const btntxt = pickText(raw?.btntxt);
+  return {
+    title,
+    description: pickText(raw?.description) || title,
+    url,
+    ...(btntxt ? { btntxt } : {}),
+  };
+}
+
+function normalizeNewsArticles(raw: unknown): WecomNewsArticle[] {
+  const list = Array.isArray(raw) ? raw : [];
+  return list
+    .map((item: any) => {
+      const title = pickText(item?.title);
+      if (!title) return null;
+      const article: WecomNewsArticle = { title };
+      const description = pickText(item?.description);
+      const url = pickText(item?.url);
+      const picurl = pickText(item?.picurl ?? item?.picUrl);
+      if (description) article.description = description;
+      if (url) article.url = url;
+      if (picurl) article.picurl = picurl;
+      return article;
+    })
+    .filter((item): item is WecomNewsArticle => Boolean(item))
+    .slice(0, WECOM_NEWS_MAX_ARTICLES);
+}
+
+function normalizeMpnewsArticles(raw: unknown): WecomMpnewsArticle[] {
+  const list = Array.isArray(raw) ? raw : [];
+  return list
+    .map((item: any) => {
+      const title = pickText(item?.title);
+      const thumbMediaId = pickText(item?.thumb_media_id ?? item?.thumbMediaId);
+      const content = typeof item?.content === "string" ? item.content : "";
+      if (!title || !thumbMediaId || !content) return null;
+      const article: WecomMpnewsArticle = { title, thumb_media_id: thumbMediaId, content };
+      const author = pickText(item?.author);
+      const sourceUrl = pickText(item?.content_source_url ?? item?.contentSourceUrl);
+      const digest = pickText(item?.digest);
+      if (author) article.author = author;
+      if (sourceUrl) article.content_source_url = sourceUrl;
+      if (digest) article.digest = digest;
+      return article;
+    })
+    .filter((item): item is WecomMpnewsArticle => Boolean(item))
+    .slice(0, WECOM_NEWS_MAX_ARTICLES);
+}
+
+/**
+ * Accepts `{ textcard: {...} }`, `{ news: { articles: [...] } }` or `{ mpnews: { articles: [...] } }`
+ * (articles may also be given directly as an array).
+ */
+export function normalizeWecomRichMessage(raw: unknown): WecomRichMessage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const value = raw as Record<string, any>;
+  if (value.textcard) {
+    const textcard = normalizeTextCard(value.textcard);
+    return textcard ? { type: "textcard", textcard } : null;
+  }
+  if (value.news) {
+    const articles = normalizeNewsArticles(Array.isArray(value.news) ? value.news : value.news?.articles);
+    return articles.length > 0 ? { type: "news", articles } : null;
+  }
+  if (value.mpnews) {
+    const articles = normalizeMpnewsArticles(Array.isArray(value.mpnews) ? value.mpnews : value.mpnews?.articles);
+    return articles.length > 0 ? { type: "mpnews", articles } : null;
+  }
+  return null;
+}
+
+/**
+ * Reads a rich message from an agent reply: `channelData.wecom` first, then a reply
+ * whose whole text is the JSON shape above (optionally inside a ```json fence).
+ */
+export function extractWecomRichMessage(payload: { text?: string; channelData?: Record<string, unknown> }): WecomRichMessage | null {
+  const fromChannelData = normalizeWecomRichMessage(payload.channelData?.wecom);
+  if (fromChannelData) return fromChannelData;
+  let trimmed = (payload.text ?? "").trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  if (fenced) trimmed = fenced[1]!.trim();
+  if (!trimmed.startsWith("{") || !/"(textcard|news|mpnews)"/.test(trimmed)) return null;
+  try {
+    return normalizeWecomRichMessage(JSON.parse(trimmed));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plain-text rendering used when WeCom rejects the card.
+ */
+export function richMessageToText(message: WecomRichMessage): string {
+  if (message.type === "textcard") {
+    const { title, description, url } = message.textcard;
+    return [title, description !== title ? description : "", url].filter(Boolean).join("\n");
+  }
+  if (message.type === "news") {
+    return message.articles
+      .map((article) => [article.title, article.description, article.url].filter(Boolean).join("\n"))
+      .join("\n\n");
+  }
+  return message.articles
+    .map((article) => [article.title, article.digest, article.content_source_url].filter(Boolean).join("\n"))
+    .join("\n\n");
+}
@@ -0,0 +1,342 @@
+import crypto from "node:crypto";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import {
+  computeWecomMsgSignature,
+  decryptWecomEncrypted,
+  encryptWecomMedia,
+  encryptWecomPlaintext,
+} from "./crypto.js";
+import { handleWecomWebhookRequest } from "./monitor.js";
+import type { WecomSimulator } from "./simulator.js";
+
+const DEFAULT_BOT_PATH = "/wecom/bot";
+const DEFAULT_APP_PATH = "/wecom/app";
+const DEFAULT_USER_ID = "sim-user";
+const STREAM_POLL_INTERVAL_MS = 200;
+const STREAM_WAIT_TIMEOUT_MS = 30_000;
+
+export type WecomDriverBotConfig = {
+  path?: string;
+  token: string;
+  encodingAESKey: string;
+  receiveId?: string;
+  aibotid?: string;
+};
+
+export type WecomDriverAppConfig = {
+  path?: string;
+  token: string;
+  encodingAESKey: string;
+  corpId: string;
+  agentId?: string | number;
+  /** `push.token` of the account, sent with `push()`. */
+  pushToken?: string;
+};
+
+export type WecomCallbackDriverOptions = {
+  bot?: WecomDriverBotConfig;
+  app?: WecomDriverAppConfig;
+  /** Gateway base URL ("http://127.0.0.1:18789"). Without it callbacks go to the in-process handler. */
+  url?: string;
+  /** Hosts bot media URLs and response_url endpoints. */
+  simulator?: WecomSimulator;
+};
+
+export type WecomBotSendOptions = {
+  userId?: string;
+  /** Sends as a group message in this chat. */
+  chatId?: string;
+  msgid?: string;
+  /** true creates a response_url on the simulator; a string is used as is. */
+  responseUrl?: boolean | string;
+};
+
+/** Decrypted bot reply JSON; `stream` is set for stream replies. */
+export type WecomBotReply = {
+  msgtype?: string;
+  stream?: { id?: string; finish?: boolean; content?: string; msg_item?: unknown[] };
+  [key: string]: unknown;
+};
+
+export type WecomBotCallbackResult = {
+  status: number;
+  msgid?: string;
+  /** Null when the plugin answered without an encrypted body. */
+  reply: WecomBotReply | null;
+  streamId?: string;
+  responseUrl?: string;
+};
+
+export type WecomAppCallbackResult = {
+  status: number;
+  body: string;
+  /** Decrypted passive reply XML, when the plugin answered with one. */
+  replyXml?: string;
+  replyText?: string;
+};
+
+export type WecomCallbackDriver = {
+  sendBotText(text: string, options?: WecomBotSendOptions): Promise<WecomBotCallbackResult>;
+  sendBotMedia(
+    msgtype: "image" | "voice" | "video" | "file",
+    buffer: Buffer,
+    options?: WecomBotSendOptions & { filename?: string },
+  ): Promise<WecomBotCallbackResult>;
+  /** Encrypts and posts any bot message; `msgid`, `from` and `chattype` are filled in when missing. */
+  sendBotMessage(message: Record<string, any>): Promise<WecomBotCallbackResult>;
+  refreshBotStream(streamId: string): Promise<WecomBotCallbackResult>;
+  /** Polls the stream like the WeCom client until `finish` is true. */
+  waitForBotStream(streamId: string, timeoutMs?: number): Promise<WecomBotCallbackResult>;
+  /** Posts the last bot callback again with the same ciphertext (WeCom retries). */
+  repostLastBot(): Promise<WecomBotCallbackResult>;
+  sendAppText(text: string, options?: { userId?: string; chatId?: string; msgId?: string }): Promise<WecomAppCallbackResult>;
+  sendAppMedia(
+    msgType: "image" | "voice" | "video" | "file",
+    mediaId: string,
+    options?: { userId?: string; chatId?: string; msgId?: string; fileName?: string },
+  ): Promise<WecomAppCallbackResult>;
+  sendAppEvent(event: string, fields?: Record<string, string | number>, options?: { userId?: string }): Promise<WecomAppCallbackResult>;
+  /** Encrypts and posts any app XML message built from `fields`. */
+  sendAppMessage(fields: Record<string, string | number>): Promise<WecomAppCallbackResult>;
+  /** Calls `<app path>/push` with the configured push token. */
+  /** `json` is the parsed response, or the raw body when it is not JSON. */
+  push(payload: Record<string, unknown>): Promise<{ status: number; json: unknown }>;
+  close(): Promise<void>;
+};
+
+function randomHex(bytes: number): string {
+  return crypto.randomBytes(bytes).toString("hex");
+}
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function buildXml(fields: Record<string, string | number>): string {
+  const body = Object.entries(fields)
+    .map(([key, value]) => `<${key}>${typeof value === "number" ? value : cdata(value)}</${key}>`)
+    .join("");
+  return `<xml>${body}</xml>`;
+}
+
+function readXmlField(xml: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<${name}>(?:<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>|([^<]*))</${name}>`));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+function signedQuery(token: string, encrypt: string): string {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = randomHex(8);
+  const signature = computeWecomMsgSignature({ token, timestamp, nonce, encrypt });
+  return new URLSearchParams({ msg_signature: signature, timestamp, nonce }).toString();
+}
+
+async function startInProcessGateway(): Promise<{ server: Server; baseUrl: string }> {
+  const server = createServer((req, res) => {
+    handleWecomWebhookRequest(req, res)
+      .then((handled) => {
+        if (handled) return;
+        res.statusCode = 404;
+        res.end("no WeCom target for this path");
+      })
+      .catch((err) => {
+        res.statusCode = 500;
+        res.end(String(err));
+      });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const address = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${address.port}` };
+}
+
+/**
+ * Builds encrypted bot JSON and app XML callbacks the way WeCom does and posts them to
+ * the plugin. Without `url` the callbacks go through `handleWecomWebhookRequest` in this
+ * process, so the accounts must be registered (gateway started) in the same process.
+ */
+export async function createWecomCallbackDriver(options: WecomCallbackDriverOptions): Promise<WecomCallbackDriver> {
+  const inProcess = options.url ? null : await startInProcessGateway();
+  const baseUrl = (options.url ?? inProcess!.baseUrl).replace(/\/+$/, "");
+  let lastBotPost: { url: string; body: string } | null = null;
+
+  const requireBot = (): WecomDriverBotConfig => {
+    if (!options.bot) throw new Error("WeCom callback driver: bot config missing");
+    return options.bot;
+  };
+  const requireApp = (): WecomDriverAppConfig => {
+    if (!options.app) throw new Error("WeCom callback driver: app config missing");
+    return options.app;
+  };
+  const requireSimulator = (): WecomSimulator => {
+    if (!options.simulator) throw new Error("WeCom callback driver: simulator required for media and response_url");
+    return options.simulator;
+  };
+
+  const postBot = async (url: string, body: string, remember = true): Promise<WecomBotCallbackResult> => {
+    if (remember) lastBotPost = { url, body };
+    const res = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body });
+    const text = await res.text();
+    let reply: WecomBotReply | null = null;
+    try {
+      const envelope = JSON.parse(text) as { encrypt?: string };
+      if (envelope?.encrypt) {
+        reply = JSON.parse(
+          decryptWecomEncrypted({ encodingAESKey: requireBot().encodingAESKey, encrypt: envelope.encrypt }),
+        ) as WecomBotReply;
+      }
+    } catch {
+      reply = null;
+    }
+    return { status: res.status, reply, streamId: reply?.stream?.id };
+  };
+
+  const sendBotMessage = async (message: Record<string, any>): Promise<WecomBotCallbackResult> => {
+    const bot = requireBot();
+    const full: Record<string, any> = {
+      msgid: randomHex(16),
+      aibotid: bot.aibotid ?? "sim-bot",
+      chattype: "single",
+      from: { userid: DEFAULT_USER_ID },
+      ...message,
+    };
+    const encrypt = encryptWecomPlaintext({
+      encodingAESKey: bot.encodingAESKey,
+      receiveId: bot.receiveId ?? "",
+      plaintext: JSON.stringify(full),
+    });
+    const url = `${baseUrl}${bot.path ?? DEFAULT_BOT_PATH}?${signedQuery(bot.token, encrypt)}`;
+    // Stream refreshes are not what `repostLastBot` should replay.
+    const result = await postBot(url, JSON.stringify({ encrypt }), full.msgtype !== "stream");
+    return {
+      ...result,
+      msgid: full.msgid,
+      responseUrl: typeof full.response_url === "string" ? full.response_url : undefined,
+    };
+  };
+
+  const buildBotEnvelope = (options: WecomBotSendOptions = {}): Record<string, any> => {
+    const envelope: Record<string, any> = { from: { userid: options.userId ?? DEFAULT_USER_ID } };
+    if (options.msgid) envelope.msgid = options.msgid;
+    if (options.chatId) {
+      envelope.chattype = "group";
+      envelope.chatid = options.chatId;
+    }
+    if (options.responseUrl) {
+      envelope.response_url = typeof options.responseUrl === "string"
+        ? options.responseUrl
+        : requireSimulator().createResponseUrl();
+    }
+    return envelope;
+  };
+
+  const refreshBotStream = (streamId: string) =>
+    sendBotMessage({ msgtype: "stream", stream: { id: streamId } });
+
+  const sendAppMessage = async (fields: Record<string, string | number>): Promise<WecomAppCallbackResult> => {
+    const app = requireApp();
+    const encrypt = encryptWecomPlaintext({
+      encodingAESKey: app.encodingAESKey,
+      receiveId: app.corpId,
+      plaintext: buildXml(fields),
+    });
+    const envelope = buildXml({
+      ToUserName: app.corpId,
+      Encrypt: encrypt,
+      AgentID: String(app.agentId ?? ""),
+    });
+    const url = `${baseUrl}${app.path ?? DEFAULT_APP_PATH}?${signedQuery(app.token, encrypt)}`;
+    const res = await fetch(url, { method: "POST", headers: { "Content-Type": "text/xml" }, body: envelope });
+    const body = await res.text();
+    const replyEncrypt = readXmlField(body, "Encrypt");
+    if (!replyEncrypt) return { status: res.status, body };
+    const replyXml = decryptWecomEncrypted({ encodingAESKey: app.encodingAESKey, receiveId: app.corpId, encrypt: replyEncrypt });
+    return { status: res.status, body, replyXml, replyText: readXmlField(replyXml, "Content") };
+  };
+
+  const buildAppFields = (msgType: string, options: { userId?: string; chatId?: string; msgId?: string } = {}) => {
+    const app = requireApp();
+    const fields: Record<string, string | number> = {
+      ToUserName: app.corpId,
+      FromUserName: options.userId ?? DEFAULT_USER_ID,
+      CreateTime: Math.floor(Date.now() / 1000),
+      MsgType: msgType,
+    };
+    if (options.chatId) fields.ChatId = options.chatId;
+    if (msgType !== "event") fields.MsgId = options.msgId ?? String(Date.now()) + String(crypto.randomInt(1000, 9999));
+    fields.AgentID = String(app.agentId ?? "");
+    return fields;
+  };
+
+  return {
+    sendBotMessage,
+    refreshBotStream,
+    async sendBotText(text, sendOptions) {
+      return await sendBotMessage({ ...buildBotEnvelope(sendOptions), msgtype: "text", text: { content: text } });
+    },
+    async sendBotMedia(msgtype, buffer, sendOptions) {
+      const bot = requireBot();
+      const url = requireSimulator().hostFile(encryptWecomMedia({ encodingAESKey: bot.encodingAESKey, buffer }));
+      const block: Record<string, string> = { url };
+      if (sendOptions?.filename) block.filename = sendOptions.filename;
+      return await sendBotMessage({ ...buildBotEnvelope(sendOptions), msgtype, [msgtype]: block });
+    },
+    async waitForBotStream(streamId, timeoutMs = STREAM_WAIT_TIMEOUT_MS) {
+      const startedAt = Date.now();
+      for (;;) {
+        const result = await refreshBotStream(streamId);
+        if (result.reply?.stream?.finish) return result;
+        if (Date.now() - startedAt >= timeoutMs) {
+          throw new Error(`WeCom callback driver: stream ${streamId} not finished within ${timeoutMs}ms`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, STREAM_POLL_INTERVAL_MS));
+      }
+    },
+    async repostLastBot() {
+      if (!lastBotPost) throw new Error("WeCom callback driver: no bot callback sent yet");
+      return await postBot(lastBotPost.url, lastBotPost.body);
+    },
+    sendAppMessage,
+    async sendAppText(text, sendOptions) {
+      return await sendAppMessage({ ...buildAppFields("text", sendOptions), Content: text });
+    },
+    async sendAppMedia(msgType, mediaId, sendOptions) {
+      const fields: Record<string, string | number> = { ...buildAppFields(msgType, sendOptions), MediaId: mediaId };
+      if (msgType === "voice") fields.Format = "amr";
+      if (sendOptions?.fileName) fields.FileName = sendOptions.fileName;
+      return await sendAppMessage(fields);
+    },
+    async sendAppEvent(event, fields, sendOptions) {
+      return await sendAppMessage({ ...buildAppFields("event", sendOptions), Event: event, ...(fields ?? {}) });
+    },
+    async push(payload) {
+      const app = requireApp();
+      const res = await fetch(`${baseUrl}${app.path ?? DEFAULT_APP_PATH}/push`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...(app.pushToken ? { token: app.pushToken } : {}), ...payload }),
+      });
+      const text = await res.text();
+      let json: unknown = text;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        // keep the raw body
+      }
+      return { status: res.status, json };
+    },
+    async close() {
+      if (!inProcess) return;
+      inProcess.server.closeAllConnections?.();
+      await new Promise<void>((resolve) => inProcess.server.close(() => resolve()));
+    },
+  };
+}
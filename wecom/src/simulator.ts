@@ -0,0 +1,386 @@
+import crypto from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+const DEFAULT_TOKEN_EXPIRES_IN = 7200;
+const DEFAULT_WAIT_TIMEOUT_MS = 10_000;
+
+export type WecomSimulatorCall = {
+  method: string;
+  /** `cgi-bin` path ("message/send"), or "response_url" for bot active replies. */
+  endpoint: string;
+  query: Record<string, string>;
+  body: unknown;
+  /** Corp the access token was issued to, when the call carried one. */
+  corpId?: string;
+  at: number;
+};
+
+export type WecomSimulatorMessage = {
+  endpoint: "message/send" | "appchat/send" | "response_url";
+  corpId?: string;
+  msgid: string;
+  payload: Record<string, any>;
+  at: number;
+};
+
+export type WecomSimulatorMedia = {
+  mediaId: string;
+  type: string;
+  filename: string;
+  contentType: string;
+  buffer: Buffer;
+};
+
+/**
+ * Replaces the built-in behaviour for one endpoint. Return a JSON body, or a media reply
+ * for `media/get`.
+ */
+export type WecomSimulatorHandler = (call: WecomSimulatorCall) =>
+  | Record<string, unknown>
+  | { buffer: Buffer; contentType: string }
+  | Promise<Record<string, unknown> | { buffer: Buffer; contentType: string }>;
+
+export type WecomSimulatorOptions = {
+  host?: string;
+  /** 0 (default) picks a free port. */
+  port?: number;
+  /** corpId -> corpSecret. When set, gettoken rejects other credentials. */
+  corps?: Record<string, string>;
+  tokenExpiresIn?: number;
+};
+
+export type WecomSimulator = {
+  /** Use as `network.apiBaseUrl` for the accounts under test. */
+  baseUrl: string;
+  calls: WecomSimulatorCall[];
+  messages: WecomSimulatorMessage[];
+  media: Map<string, WecomSimulatorMedia>;
+  /** Answers the next `times` calls to `endpoint` with `errcode` (e.g. 45009, 42001). */
+  failNext(endpoint: string, errcode: number, options?: { errmsg?: string; times?: number }): void;
+  handle(endpoint: string, handler: WecomSimulatorHandler | null): void;
+  /** Invalidates every issued access token; the next call gets 42001. */
+  expireTokens(): void;
+  /** Stores media as if uploaded, for app callbacks that reference a MediaId. */
+  addMedia(buffer: Buffer, options?: { type?: string; filename?: string; contentType?: string }): string;
+  /** Serves `buffer` at a fresh URL (bot image/file callbacks carry such URLs). */
+  hostFile(buffer: Buffer, options?: { contentType?: string }): string;
+  /** A fresh `response_url`; posts to it are recorded as messages. */
+  createResponseUrl(): string;
+  /** Resolves with the first matching message that no earlier wait returned. */
+  waitForMessage(
+    predicate?: (message: WecomSimulatorMessage) => boolean,
+    timeoutMs?: number,
+  ): Promise<WecomSimulatorMessage>;
+  reset(): void;
+  close(): Promise<void>;
+};
+
+type Failure = { errcode: number; errmsg: string; remaining: number };
+type Waiter = { predicate: (message: WecomSimulatorMessage) => boolean; resolve: (message: WecomSimulatorMessage) => void };
+
+function randomId(prefix: string): string {
+  return `${prefix}${crypto.randomBytes(12).toString("hex")}`;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function sendJson(res: ServerResponse, body: unknown): void {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+function sendBuffer(res: ServerResponse, buffer: Buffer, contentType: string, filename?: string): void {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Length", String(buffer.length));
+  if (filename) res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(filename)}"`);
+  res.end(buffer);
+}
+
+async function parseCallBody(req: IncomingMessage, raw: Buffer): Promise<unknown> {
+  if (raw.length === 0) return undefined;
+  const contentType = String(req.headers["content-type"] ?? "");
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await new Request("http://localhost", {
+      method: "POST",
+      headers: { "content-type": contentType },
+      body: new Uint8Array(raw),
+    }).formData();
+    const file = form.get("media");
+    if (file && typeof file !== "string") {
+      return { filename: file.name, contentType: file.type, buffer: Buffer.from(await file.arrayBuffer()) };
+    }
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw.toString("utf8"));
+  } catch {
+    return raw.toString("utf8");
+  }
+}
+
+function isMediaReply(value: unknown): value is { buffer: Buffer; contentType: string } {
+  return Boolean(value && typeof value === "object" && Buffer.isBuffer((value as any).buffer));
+}
+
+/**
+ * Local stand-in for the WeCom `cgi-bin` API: gettoken, message/send, appchat/send,
+ * media/upload and media/get behave like the real endpoints; other paths answer
+ * `{ errcode: 0 }` unless a handler is registered. Every call is recorded.
+ */
+export async function startWecomSimulator(options: WecomSimulatorOptions = {}): Promise<WecomSimulator> {
+  const calls: WecomSimulatorCall[] = [];
+  const messages: WecomSimulatorMessage[] = [];
+  const media = new Map<string, WecomSimulatorMedia>();
+  const tokens = new Map<string, { corpId: string; expiresAt: number }>();
+  const failures = new Map<string, Failure>();
+  const handlers = new Map<string, WecomSimulatorHandler>();
+  const hostedFiles = new Map<string, { buffer: Buffer; contentType: string }>();
+  const responseUrls = new Set<string>();
+  const waiters: Waiter[] = [];
+  const consumed = new WeakSet<WecomSimulatorMessage>();
+  const tokenExpiresIn = options.tokenExpiresIn ?? DEFAULT_TOKEN_EXPIRES_IN;
+
+  const recordMessage = (message: WecomSimulatorMessage) => {
+    messages.push(message);
+    for (const waiter of [...waiters]) {
+      if (!waiter.predicate(message)) continue;
+      waiters.splice(waiters.indexOf(waiter), 1);
+      consumed.add(message);
+      waiter.resolve(message);
+      return;
+    }
+  };
+
+  const storeMedia = (buffer: Buffer, params: { type?: string; filename?: string; contentType?: string }) => {
+    const mediaId = randomId("sim_media_");
+    media.set(mediaId, {
+      mediaId,
+      type: params.type ?? "file",
+      filename: params.filename || "file.bin",
+      contentType: params.contentType || "application/octet-stream",
+      buffer,
+    });
+    return mediaId;
+  };
+
+  const handleBuiltin = (call: WecomSimulatorCall, res: ServerResponse) => {
+    const body = (call.body ?? {}) as Record<string, any>;
+    switch (call.endpoint) {
+      case "message/send": {
+        const msgid = randomId("sim_msg_");
+        recordMessage({ endpoint: "message/send", corpId: call.corpId, msgid, payload: body, at: call.at });
+        sendJson(res, { errcode: 0, errmsg: "ok", invaliduser: "", invalidparty: "", invalidtag: "", msgid });
+        return;
+      }
+      case "appchat/send": {
+        recordMessage({ endpoint: "appchat/send", corpId: call.corpId, msgid: randomId("sim_msg_"), payload: body, at: call.at });
+        sendJson(res, { errcode: 0, errmsg: "ok" });
+        return;
+      }
+      case "media/upload": {
+        if (!body.buffer) {
+          sendJson(res, { errcode: 41001, errmsg: "missing media" });
+          return;
+        }
+        const type = call.query.type || "file";
+        const mediaId = storeMedia(body.buffer, { type, filename: body.filename, contentType: body.contentType });
+        sendJson(res, { errcode: 0, errmsg: "ok", type, media_id: mediaId, created_at: String(Math.floor(call.at / 1000)) });
+        return;
+      }
+      case "media/get": {
+        const entry = media.get(call.query.media_id ?? "");
+        if (!entry) {
+          sendJson(res, { errcode: 40007, errmsg: "invalid media_id" });
+          return;
+        }
+        sendBuffer(res, entry.buffer, entry.contentType, entry.filename);
+        return;
+      }
+      default:
+        sendJson(res, { errcode: 0, errmsg: "ok" });
+    }
+  };
+
+  const handleGetToken = (query: Record<string, string>, res: ServerResponse) => {
+    const corpId = query.corpid ?? "";
+    const secret = query.corpsecret ?? "";
+    if (!corpId) {
+      sendJson(res, { errcode: 41002, errmsg: "corpid missing" });
+      return;
+    }
+    if (options.corps) {
+      if (!(corpId in options.corps)) {
+        sendJson(res, { errcode: 40013, errmsg: "invalid corpid" });
+        return;
+      }
+      if (options.corps[corpId] !== secret) {
+        sendJson(res, { errcode: 40001, errmsg: "invalid credential" });
+        return;
+      }
+    }
+    const accessToken = randomId("sim_token_");
+    tokens.set(accessToken, { corpId, expiresAt: Date.now() + tokenExpiresIn * 1000 });
+    sendJson(res, { errcode: 0, errmsg: "ok", access_token: accessToken, expires_in: tokenExpiresIn });
+  };
+
+  const server = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const method = (req.method ?? "GET").toUpperCase();
+
+      const hosted = hostedFiles.get(url.pathname);
+      if (hosted && method === "GET") {
+        sendBuffer(res, hosted.buffer, hosted.contentType);
+        return;
+      }
+
+      const raw = await readBody(req);
+      if (responseUrls.has(url.pathname) && method === "POST") {
+        const body = await parseCallBody(req, raw);
+        const at = Date.now();
+        calls.push({ method, endpoint: "response_url", query: {}, body, at });
+        recordMessage({ endpoint: "response_url", msgid: randomId("sim_msg_"), payload: (body ?? {}) as Record<string, any>, at });
+        sendJson(res, { errcode: 0, errmsg: "ok" });
+        return;
+      }
+
+      const match = url.pathname.match(/^\/cgi-bin\/(.+)$/);
+      if (!match) {
+        res.statusCode = 404;
+        res.end("not found");
+        return;
+      }
+      const endpoint = match[1]!;
+      const query = Object.fromEntries(url.searchParams.entries());
+      const call: WecomSimulatorCall = { method, endpoint, query, body: await parseCallBody(req, raw), at: Date.now() };
+
+      if (endpoint !== "gettoken") {
+        const token = tokens.get(query.access_token ?? "");
+        if (!token) {
+          calls.push(call);
+          sendJson(res, { errcode: 40014, errmsg: "invalid access_token" });
+          return;
+        }
+        call.corpId = token.corpId;
+        if (token.expiresAt <= Date.now()) {
+          calls.push(call);
+          sendJson(res, { errcode: 42001, errmsg: "access_token expired" });
+          return;
+        }
+      }
+      calls.push(call);
+
+      const failure = failures.get(endpoint);
+      if (failure) {
+        failure.remaining -= 1;
+        if (failure.remaining <= 0) failures.delete(endpoint);
+        sendJson(res, { errcode: failure.errcode, errmsg: failure.errmsg });
+        return;
+      }
+
+      const handler = handlers.get(endpoint);
+      if (handler) {
+        const reply = await handler(call);
+        if (isMediaReply(reply)) sendBuffer(res, reply.buffer, reply.contentType);
+        else sendJson(res, reply);
+        return;
+      }
+
+      if (endpoint === "gettoken") {
+        handleGetToken(query, res);
+        return;
+      }
+      handleBuiltin(call, res);
+    } catch (err) {
+      res.statusCode = 500;
+      res.end(String(err));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const address = server.address() as AddressInfo;
+  const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+  const baseUrl = `http://${host}:${address.port}`;
+
+  return {
+    baseUrl,
+    calls,
+    messages,
+    media,
+    failNext(endpoint, errcode, failOptions) {
+      failures.set(endpoint, {
+        errcode,
+        errmsg: failOptions?.errmsg ?? `simulated error ${errcode}`,
+        remaining: failOptions?.times ?? 1,
+      });
+    },
+    handle(endpoint, handler) {
+      if (handler) handlers.set(endpoint, handler);
+      else handlers.delete(endpoint);
+    },
+    expireTokens() {
+      for (const token of tokens.values()) token.expiresAt = 0;
+    },
+    addMedia(buffer, mediaOptions) {
+      return storeMedia(buffer, mediaOptions ?? {});
+    },
+    hostFile(buffer, fileOptions) {
+      const path = `/files/${randomId("")}`;
+      hostedFiles.set(path, { buffer, contentType: fileOptions?.contentType ?? "application/octet-stream" });
+      return `${baseUrl}${path}`;
+    },
+    createResponseUrl() {
+      const path = `/response_url/${randomId("")}`;
+      responseUrls.add(path);
+      return `${baseUrl}${path}`;
+    },
+    waitForMessage(predicate = () => true, timeoutMs = DEFAULT_WAIT_TIMEOUT_MS) {
+      const existing = messages.find((message) => !consumed.has(message) && predicate(message));
+      if (existing) {
+        consumed.add(existing);
+        return Promise.resolve(existing);
+      }
+      return new Promise((resolve, reject) => {
+        const waiter: Waiter = {
+          predicate,
+          resolve: (message) => {
+            clearTimeout(timer);
+            resolve(message);
+          },
+        };
+        const timer = setTimeout(() => {
+          const index = waiters.indexOf(waiter);
+          if (index >= 0) waiters.splice(index, 1);
+          reject(new Error(`WeCom simulator: no matching message within ${timeoutMs}ms`));
+        }, timeoutMs);
+        waiters.push(waiter);
+      });
+    },
+    reset() {
+      calls.length = 0;
+      messages.length = 0;
+      failures.clear();
+      handlers.clear();
+    },
+    async close() {
+      server.closeAllConnections?.();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
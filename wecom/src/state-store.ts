@@ -0,0 +1,321 @@
+import crypto from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+
+import type { ResolvedWecomAccount } from "./types.js";
+
+// Expired entries are swept at most this often (file / SQLite backends).
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+const SQLITE_BUSY_TIMEOUT_MS = 5000;
+
+export type WecomStateSetOptions = {
+  ttlMs: number;
+  /**
+   * Oldest entries of the namespace beyond this are evicted: on write (memory) or when
+   * expired entries are swept (file / SQLite).
+   */
+  maxEntries?: number;
+};
+
+/**
+ * Key/value store for short-lived plugin state (bot streams, callback dedupe, media cache,
+ * pending file lists, access tokens). Values must be JSON-serializable.
+ */
+export type WecomStateStore = {
+  get<T>(namespace: string, key: string): Promise<T | undefined>;
+  set<T>(namespace: string, key: string, value: T, options: WecomStateSetOptions): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+};
+
+type StoredEntry = { key: string; value: unknown; expiresAt: number };
+
+/**
+ * Process-local store (the default); state is lost on restart and not shared between replicas.
+ */
+export function createMemoryStateStore(): WecomStateStore {
+  const namespaces = new Map<string, Map<string, StoredEntry>>();
+  const resolve = (namespace: string) => {
+    let entries = namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      namespaces.set(namespace, entries);
+    }
+    return entries;
+  };
+  return {
+    async get<T>(namespace: string, key: string): Promise<T | undefined> {
+      const entries = resolve(namespace);
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value as T;
+    },
+    async set<T>(namespace: string, key: string, value: T, options: WecomStateSetOptions): Promise<void> {
+      const entries = resolve(namespace);
+      // Re-insert so iteration order follows the last write.
+      entries.delete(key);
+      entries.set(key, { key, value, expiresAt: Date.now() + options.ttlMs });
+      if (options.maxEntries && entries.size > options.maxEntries) {
+        const now = Date.now();
+        for (const [id, entry] of entries) {
+          if (entry.expiresAt <= now) entries.delete(id);
+        }
+        for (const id of entries.keys()) {
+          if (entries.size <= options.maxEntries) break;
+          entries.delete(id);
+        }
+      }
+    },
+    async delete(namespace: string, key: string): Promise<void> {
+      resolve(namespace).delete(key);
+    },
+  };
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash("sha1").update(key).digest("hex");
+}
+
+function safeNamespace(namespace: string): string {
+  return namespace.replace(/[^A-Za-z0-9_-]+/g, "_");
+}
+
+/**
+ * One JSON file per entry under `dir/<namespace>/`. Writes go through a temp file and a
+ * rename, so several processes can share the directory (last write wins).
+ */
+export function createFileStateStore(dir: string): WecomStateStore {
+  const writes = new Map<string, Promise<void>>();
+  const lastPrune = new Map<string, number>();
+
+  const resolvePath = (namespace: string, key: string) => join(dir, safeNamespace(namespace), `${hashKey(key)}.json`);
+
+  const readEntry = async (path: string): Promise<StoredEntry | null> => {
+    try {
+      return JSON.parse(await readFile(path, "utf8")) as StoredEntry;
+    } catch {
+      return null;
+    }
+  };
+
+  // Serializes writes per file so a slow earlier write cannot overwrite a later one.
+  const enqueue = (path: string, task: () => Promise<void>): Promise<void> => {
+    const previous = writes.get(path) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    writes.set(path, next);
+    void next.catch(() => {}).finally(() => {
+      if (writes.get(path) === next) writes.delete(path);
+    });
+    return next;
+  };
+
+  const pruneNamespace = async (namespace: string, maxEntries?: number) => {
+    const now = Date.now();
+    if (now - (lastPrune.get(namespace) ?? 0) < PRUNE_INTERVAL_MS) return;
+    lastPrune.set(namespace, now);
+    const nsDir = join(dir, safeNamespace(namespace));
+    const files = await readdir(nsDir).catch(() => [] as string[]);
+    const live: Array<{ path: string; expiresAt: number }> = [];
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const path = join(nsDir, file);
+      const entry = await readEntry(path);
+      if (!entry || entry.expiresAt <= now) await rm(path, { force: true });
+      else live.push({ path, expiresAt: entry.expiresAt });
+    }
+    if (!maxEntries || live.length <= maxEntries) return;
+    // Entries of a namespace share a TTL, so the earliest expiry is the oldest write.
+    live.sort((a, b) => a.expiresAt - b.expiresAt);
+    for (const item of live.slice(0, live.length - maxEntries)) {
+      await enqueue(item.path, () => rm(item.path, { force: true }));
+    }
+  };
+
+  return {
+    async get<T>(namespace: string, key: string): Promise<T | undefined> {
+      const path = resolvePath(namespace, key);
+      await writes.get(path)?.catch(() => {});
+      const entry = await readEntry(path);
+      if (!entry || entry.key !== key) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        await rm(path, { force: true }).catch(() => {});
+        return undefined;
+      }
+      return entry.value as T;
+    },
+    async set<T>(namespace: string, key: string, value: T, options: WecomStateSetOptions): Promise<void> {
+      const path = resolvePath(namespace, key);
+      const payload = JSON.stringify({ key, value, expiresAt: Date.now() + options.ttlMs } satisfies StoredEntry);
+      await enqueue(path, async () => {
+        await mkdir(dirname(path), { recursive: true });
+        const tmpPath = `${path}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+        await writeFile(tmpPath, payload, { encoding: "utf8", mode: 0o600 });
+        await rename(tmpPath, path);
+      });
+      void pruneNamespace(namespace, options.maxEntries).catch(() => {});
+    },
+    async delete(namespace: string, key: string): Promise<void> {
+      const path = resolvePath(namespace, key);
+      await enqueue(path, () => rm(path, { force: true }));
+    },
+  };
+}
+
+/**
+ * SQLite database (Node's built-in `node:sqlite`, Node 22.5+) in WAL mode; safe for
+ * several gateway processes on one host or a shared volume that supports locking.
+ */
+export async function createSqliteStateStore(path: string): Promise<WecomStateStore> {
+  // Loaded lazily: `node:sqlite` is missing on older Node versions.
+  const moduleName = "node:sqlite";
+  const sqlite: any = await import(moduleName);
+  await mkdir(dirname(path), { recursive: true });
+  const db = new sqlite.DatabaseSync(path);
+  db.exec(`PRAGMA journal_mode = WAL; PRAGMA busy_timeout = ${SQLITE_BUSY_TIMEOUT_MS};`);
+  db.exec(`CREATE TABLE IF NOT EXISTS wecom_state (
+    namespace TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    expires_at INTEGER NOT NULL,
+    PRIMARY KEY (namespace, key)
+  )`);
+  const selectStmt = db.prepare("SELECT value, expires_at FROM wecom_state WHERE namespace = ? AND key = ?");
+  const upsertStmt = db.prepare(`INSERT INTO wecom_state (namespace, key, value, expires_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (namespace, key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at`);
+  const deleteStmt = db.prepare("DELETE FROM wecom_state WHERE namespace = ? AND key = ?");
+  const pruneStmt = db.prepare("DELETE FROM wecom_state WHERE expires_at <= ?");
+  // Entries of a namespace share a TTL, so the latest expiries are the newest writes.
+  const trimStmt = db.prepare(`DELETE FROM wecom_state WHERE namespace = ? AND key NOT IN (
+    SELECT key FROM wecom_state WHERE namespace = ? ORDER BY expires_at DESC LIMIT ?
+  )`);
+  // namespace -> maxEntries of its last write, applied on the next sweep.
+  const limits = new Map<string, number>();
+  let lastPrune = 0;
+
+  return {
+    async get<T>(namespace: string, key: string): Promise<T | undefined> {
+      const row = selectStmt.get(namespace, key) as { value: string; expires_at: number } | undefined;
+      if (!row) return undefined;
+      if (row.expires_at <= Date.now()) {
+        deleteStmt.run(namespace, key);
+        return undefined;
+      }
+      return JSON.parse(row.value) as T;
+    },
+    async set<T>(namespace: string, key: string, value: T, options: WecomStateSetOptions): Promise<void> {
+      const now = Date.now();
+      upsertStmt.run(namespace, key, JSON.stringify(value), now + options.ttlMs);
+      if (options.maxEntries) limits.set(namespace, options.maxEntries);
+      if (now - lastPrune >= PRUNE_INTERVAL_MS) {
+        lastPrune = now;
+        pruneStmt.run(now);
+        for (const [limitedNamespace, maxEntries] of limits) {
+          trimStmt.run(limitedNamespace, limitedNamespace, maxEntries);
+        }
+      }
+    },
+    async delete(namespace: string, key: string): Promise<void> {
+      deleteStmt.run(namespace, key);
+    },
+  };
+}
+
+type LazyStateStore = { store: WecomStateStore; ready: Promise<void> };
+
+/**
+ * Defers every call until `factory` resolved; falls back to memory when it fails
+ * (e.g. `node:sqlite` unavailable). `ready` rejects with the factory error.
+ */
+function createLazyStateStore(factory: () => Promise<WecomStateStore>, onError: (err: unknown) => void): LazyStateStore {
+  const opened = factory();
+  const current = opened.catch((err) => {
+    onError(err);
+    return createMemoryStateStore();
+  });
+  const ready = opened.then(() => undefined);
+  ready.catch(() => {});
+  return {
+    store: {
+      get: async (namespace, key) => (await current).get(namespace, key),
+      set: async (namespace, key, value, options) => (await current).set(namespace, key, value, options),
+      delete: async (namespace, key) => (await current).delete(namespace, key),
+    },
+    ready,
+  };
+}
+
+const stores = new Map<string, LazyStateStore>();
+let customStore: WecomStateStore | null = null;
+
+/**
+ * Replaces the configured backend for every account (e.g. a Redis-backed store from
+ * another plugin). Pass null to go back to `state.backend`.
+ */
+export function setWecomStateStore(store: WecomStateStore | null): void {
+  customStore = store;
+}
+
+function resolveStatePath(account: ResolvedWecomAccount, fallbackName: string): string {
+  const configured = account.config.state?.path?.trim();
+  if (configured) return configured;
+  const baseDir = account.config.directory?.cacheDir?.trim() || join(homedir(), ".openclaw", "wecom");
+  return join(baseDir, fallbackName);
+}
+
+function resolveStateStoreKey(account: ResolvedWecomAccount): { key: string; backend: string; path: string } {
+  const backend = account.config.state?.backend ?? "memory";
+  const path = backend === "memory"
+    ? ""
+    : resolveStatePath(account, backend === "sqlite" ? "state.sqlite" : "state");
+  return { key: `${backend}:${path}`, backend, path };
+}
+
+/**
+ * Store for `state.backend`: `memory` (default), `file` (directory, default
+ * `~/.openclaw/wecom/state`) or `sqlite` (default `~/.openclaw/wecom/state.sqlite`).
+ * Accounts with the same backend and path share one store.
+ */
+export function getWecomStateStore(account: ResolvedWecomAccount, log?: (message: string) => void): WecomStateStore {
+  if (customStore) return customStore;
+  const { key, backend, path } = resolveStateStoreKey(account);
+  let entry = stores.get(key);
+  if (!entry) {
+    if (backend === "file") {
+      entry = { store: createFileStateStore(path), ready: Promise.resolve() };
+    } else if (backend === "sqlite") {
+      entry = createLazyStateStore(() => createSqliteStateStore(path), (err) => {
+        log?.(`[wecom] state store ${path} unavailable, using memory: ${String(err)}`);
+      });
+    } else {
+      entry = { store: createMemoryStateStore(), ready: Promise.resolve() };
+    }
+    stores.set(key, entry);
+  }
+  return entry.store;
+}
+
+/**
+ * Opens the account's store and throws when `state.backend` cannot be used (`sqlite` needs
+ * Node 22.5+). Gateway start calls this, so a replica does not run on process-local state
+ * unnoticed; the failed store is dropped and opened again on the next start.
+ */
+export async function openWecomStateStore(
+  account: ResolvedWecomAccount,
+  log?: (message: string) => void,
+): Promise<WecomStateStore> {
+  const store = getWecomStateStore(account, log);
+  if (customStore) return store;
+  const { key, backend, path } = resolveStateStoreKey(account);
+  try {
+    await stores.get(key)?.ready;
+  } catch (err) {
+    stores.delete(key);
+    const hint = backend === "sqlite" ? " (the sqlite backend needs Node 22.5+ with node:sqlite)" : "";
+    throw new Error(`WeCom state store ${backend} (${path}) cannot be opened${hint}: ${String(err)}`);
+  }
+  return store;
+}
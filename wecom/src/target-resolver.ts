@@ -0,0 +1,166 @@
+import { listWecomChats, type WecomChatEntry } from "./chat-registry.js";
+import {
+  ensureWecomDirectoryNames,
+  isWecomDirectoryEnabled,
+  listWecomDirectoryDepartments,
+  listWecomDirectoryUsers,
+  type WecomDirectoryDepartment,
+  type WecomDirectoryUser,
+} from "./directory.js";
+import type { WecomOutboundTarget } from "./outbound.js";
+import type { ResolvedWecomAccount } from "./types.js";
+import { getWecomUserIdByEmail, getWecomUserIdByMobile, isWecomApiError } from "./wecom-api.js";
+
+const CANDIDATE_LIST_MAX = 10;
+
+export type WecomTargetResolveError = Error & {
+  input: string;
+  candidates?: string[];
+};
+
+function resolveError(input: string, message: string, candidates?: string[]): WecomTargetResolveError {
+  const err = new Error(message) as WecomTargetResolveError;
+  err.input = input;
+  if (candidates) err.candidates = candidates;
+  return err;
+}
+
+export function isWecomTargetResolveError(err: unknown): err is WecomTargetResolveError {
+  return err instanceof Error && typeof (err as WecomTargetResolveError).input === "string";
+}
+
+function looksLikeEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+function looksLikeMobile(value: string): boolean {
+  return /^\+?\d{11,15}$/.test(value.replace(/[\s-]/g, ""));
+}
+
+// Plain userids / chatids are ASCII; anything else must be a display name.
+function looksLikeRawId(value: string): boolean {
+  return /^[A-Za-z0-9_.@-]+$/.test(value);
+}
+
+function normalizeName(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function describeUser(user: WecomDirectoryUser, departments: Map<number, string>): string {
+  const dept = user.departmentIds.map((id) => departments.get(id)).filter(Boolean).join("、");
+  return `${user.name ?? user.userid} (${[user.userid, dept].filter(Boolean).join(", ")})`;
+}
+
+function describeChat(chat: WecomChatEntry): string {
+  return `${chat.name ?? chat.chatId} (${chat.chatId})`;
+}
+
+function describeDepartment(dept: WecomDirectoryDepartment): string {
+  return `${dept.name ?? dept.id} (${dept.id})`;
+}
+
+function ambiguous(input: string, label: string, candidates: string[]): WecomTargetResolveError {
+  const shown = candidates.slice(0, CANDIDATE_LIST_MAX);
+  const more = candidates.length > shown.length ? ` (+${candidates.length - shown.length} more)` : "";
+  return resolveError(
+    input,
+    `WeCom ${label} "${input}" is ambiguous; candidates: ${shown.join("; ")}${more}`,
+    candidates,
+  );
+}
+
+/**
+ * Case-insensitive exact matches win; substring matches are only considered when there are none.
+ */
+function matchByName<T>(items: T[], query: string, names: (item: T) => Array<string | undefined>): T[] {
+  const needle = normalizeName(query);
+  const exact = items.filter((item) => names(item).some((name) => name && normalizeName(name) === needle));
+  if (exact.length > 0) return exact;
+  return items.filter((item) => names(item).some((name) => name && normalizeName(name).includes(needle)));
+}
+
+async function lookupUserIdByEmail(account: ResolvedWecomAccount, email: string): Promise<string> {
+  for (const emailType of [1, 2] as const) {
+    try {
+      const userId = await getWecomUserIdByEmail({ account, email, emailType });
+      if (userId) return userId;
+    } catch (err) {
+      if (!isWecomApiError(err)) throw err;
+    }
+  }
+  return "";
+}
+
+async function resolveUser(account: ResolvedWecomAccount, input: string): Promise<string> {
+  const value = input.trim();
+  let users = await listWecomDirectoryUsers(account);
+  if (users.some((user) => user.userid === value)) return value;
+  if (looksLikeEmail(value)) {
+    const userId = await lookupUserIdByEmail(account, value);
+    if (!userId) throw resolveError(input, `WeCom user not found for email ${value}`);
+    return userId;
+  }
+  if (looksLikeMobile(value)) {
+    let userId = "";
+    try {
+      userId = await getWecomUserIdByMobile({ account, mobile: value.replace(/[\s-]/g, "") });
+    } catch (err) {
+      if (!isWecomApiError(err)) throw err;
+    }
+    if (!userId) throw resolveError(input, `WeCom user not found for mobile ${value}`);
+    return userId;
+  }
+  if (!isWecomDirectoryEnabled(account)) return value;
+
+  if (users.some((user) => !user.name)) {
+    await ensureWecomDirectoryNames({ account });
+    users = await listWecomDirectoryUsers(account);
+  }
+  const matches = matchByName(users, value, (user) => [user.name, user.alias]);
+  if (matches.length === 1) return matches[0]!.userid;
+  if (matches.length > 1) {
+    const departments = new Map(
+      (await listWecomDirectoryDepartments(account)).map((dept) => [dept.id, dept.name ?? String(dept.id)]),
+    );
+    throw ambiguous(input, "user", matches.map((user) => describeUser(user, departments)));
+  }
+  // Not in the cached directory: let WeCom judge ASCII ids (it reports invaliduser).
+  if (looksLikeRawId(value)) return value;
+  throw resolveError(input, `WeCom user not found: ${value}`);
+}
+
+async function resolveGroup(account: ResolvedWecomAccount, input: string): Promise<string> {
+  const value = input.trim();
+  const chats = await listWecomChats(account);
+  if (chats.some((chat) => chat.chatId === value)) return value;
+  const matches = matchByName(chats, value, (chat) => [chat.name]);
+  if (matches.length === 1) return matches[0]!.chatId;
+  if (matches.length > 1) throw ambiguous(input, "group", matches.map(describeChat));
+  if (looksLikeRawId(value)) return value;
+  throw resolveError(input, `WeCom group not found: ${value} (only chats created or seen by this app are known)`);
+}
+
+async function resolveParty(account: ResolvedWecomAccount, input: string): Promise<string> {
+  const value = input.trim();
+  if (/^\d+(\|\d+)*$/.test(value)) return value;
+  const departments = await listWecomDirectoryDepartments(account);
+  const matches = matchByName(departments, value, (dept) => [dept.name]);
+  if (matches.length === 1) return String(matches[0]!.id);
+  if (matches.length > 1) throw ambiguous(input, "department", matches.map(describeDepartment));
+  throw resolveError(input, `WeCom department not found: ${value}`);
+}
+
+/**
+ * Resolves a parsed target to WeCom ids. Users accept userid, display name / alias,
+ * email or mobile; groups accept chatid or a chat name from the local registry;
+ * departments accept id or name. Tags are passed through.
+ */
+export async function resolveWecomTarget(
+  account: ResolvedWecomAccount,
+  target: WecomOutboundTarget,
+): Promise<WecomOutboundTarget> {
+  if (target.kind === "user") return { kind: "user", id: await resolveUser(account, target.id) };
+  if (target.kind === "group") return { kind: "group", id: await resolveGroup(account, target.id) };
+  if (target.kind === "party") return { kind: "party", id: await resolveParty(account, target.id) };
+  return target;
+}
@@ -0,0 +1,356 @@
+import crypto from "node:crypto";
+
+export type WecomTemplateCardType =
+  | "text_notice"
+  | "news_notice"
+  | "button_interaction"
+  | "vote_interaction"
+  | "multiple_interaction";
+
+export type WecomCardOption = {
+  id: string;
+  text: string;
+};
+
+export type WecomCardJumpAction = {
+  type?: 0 | 1 | 2;
+  url?: string;
+  appid?: string;
+  pagepath?: string;
+};
+
+export type WecomTemplateCard = {
+  card_type: WecomTemplateCardType;
+  source?: { icon_url?: string; desc?: string; desc_color?: 0 | 1 | 2 | 3 };
+  action_menu?: { desc?: string; action_list: Array<{ text: string; key: string }> };
+  task_id?: string;
+  main_title?: { title?: string; desc?: string };
+  quote_area?: WecomCardJumpAction & { title?: string; quote_text?: string };
+  emphasis_content?: { title?: string; desc?: string };
+  sub_title_text?: string;
+  horizontal_content_list?: Array<{
+    keyname: string;
+    value?: string;
+    type?: 0 | 1 | 2 | 3;
+    url?: string;
+    media_id?: string;
+    userid?: string;
+  }>;
+  jump_list?: Array<WecomCardJumpAction & { title: string }>;
+  card_action?: WecomCardJumpAction;
+  card_image?: { url: string; aspect_ratio?: number };
+  image_text_area?: WecomCardJumpAction & { title?: string; desc?: string; image_url: string };
+  vertical_content_list?: Array<{ title: string; desc?: string }>;
+  button_selection?: { question_key: string; title?: string; option_list: WecomCardOption[]; selected_id?: string };
+  button_list?: Array<{ text: string; style?: 1 | 2 | 3 | 4; key: string }>;
+  checkbox?: { question_key: string; option_list: Array<WecomCardOption & { is_checked?: boolean }>; mode?: 0 | 1 };
+  select_list?: Array<{ question_key: string; title?: string; selected_id?: string; option_list: WecomCardOption[] }>;
+  submit_button?: { text: string; key: string };
+};
+
+const CARD_TYPES = new Set<WecomTemplateCardType>([
+  "text_notice",
+  "news_notice",
+  "button_interaction",
+  "vote_interaction",
+  "multiple_interaction",
+]);
+
+const INTERACTIVE_CARD_TYPES = new Set<WecomTemplateCardType>([
+  "button_interaction",
+  "vote_interaction",
+  "multiple_interaction",
+]);
+
+const TASK_ID_PATTERN = /^[A-Za-z0-9_\-@]{1,128}$/;
+
+export function isInteractiveTemplateCard(card: WecomTemplateCard): boolean {
+  return INTERACTIVE_CARD_TYPES.has(card.card_type);
+}
+
+export function createTemplateCardTaskId(): string {
+  return `oc_${Date.now()}_${crypto.randomBytes(4).toString("hex")}`;
+}
+
+export function buildTextNoticeCard(params: {
+  title: string;
+  desc?: string;
+  subTitle?: string;
+  url: string;
+  emphasis?: { title: string; desc?: string };
+  fields?: Array<{ key: string; value: string }>;
+}): WecomTemplateCard {
+  return {
+    card_type: "text_notice",
+    main_title: { title: params.title, desc: params.desc },
+    ...(params.emphasis ? { emphasis_content: params.emphasis } : {}),
+    ...(params.subTitle ? { sub_title_text: params.subTitle } : {}),
+    ...(params.fields?.length
+      ? { horizontal_content_list: params.fields.map((field) => ({ keyname: field.key, value: field.value })) }
+      : {}),
+    card_action: { type: 1, url: params.url },
+  };
+}
+
+export function buildNewsNoticeCard(params: {
+  title: string;
+  desc?: string;
+  imageUrl: string;
+  url: string;
+  rows?: Array<{ title: string; desc?: string }>;
+}): WecomTemplateCard {
+  return {
+    card_type: "news_notice",
+    main_title: { title: params.title, desc: params.desc },
+    card_image: { url: params.imageUrl, aspect_ratio: 2.25 },
+    ...(params.rows?.length ? { vertical_content_list: params.rows } : {}),
+    card_action: { type: 1, url: params.url },
+  };
+}
+
+export function buildButtonInteractionCard(params: {
+  title: string;
+  desc?: string;
+  subTitle?: string;
+  buttons: Array<{ text: string; key: string; style?: 1 | 2 | 3 | 4 }>;
+  taskId?: string;
+}): WecomTemplateCard {
+  return {
+    card_type: "button_interaction",
+    main_title: { title: params.title, desc: params.desc },
+    ...(params.subTitle ? { sub_title_text: params.subTitle } : {}),
+    task_id: params.taskId ?? createTemplateCardTaskId(),
+    button_list: params.buttons.map((button) => ({ text: button.text, key: button.key, style: button.style ?? 1 })),
+  };
+}
+
+export function buildVoteInteractionCard(params: {
+  title: string;
+  desc?: string;
+  questionKey: string;
+  options: WecomCardOption[];
+  multiple?: boolean;
+  submitText?: string;
+  submitKey?: string;
+  taskId?: string;
+}): WecomTemplateCard {
+  return {
+    card_type: "vote_interaction",
+    main_title: { title: params.title, desc: params.desc },
+    task_id: params.taskId ?? createTemplateCardTaskId(),
+    checkbox: {
+      question_key: params.questionKey,
+      option_list: params.options,
+      mode: params.multiple ? 1 : 0,
+    },
+    submit_button: { text: params.submitText ?? "提交", key: params.submitKey ?? `${params.questionKey}_submit` },
+  };
+}
+
+export function buildMultipleInteractionCard(params: {
+  title: string;
+  desc?: string;
+  selects: Array<{ questionKey: string; title?: string; options: WecomCardOption[] }>;
+  submitText?: string;
+  submitKey?: string;
+  taskId?: string;
+}): WecomTemplateCard {
+  return {
+    card_type: "multiple_interaction",
+    main_title: { title: params.title, desc: params.desc },
+    task_id: params.taskId ?? createTemplateCardTaskId(),
+    select_list: params.selects.map((select) => ({
+      question_key: select.questionKey,
+      title: select.title,
+      option_list: select.options,
+    })),
+    submit_button: { text: params.submitText ?? "提交", key: params.submitKey ?? "submit" },
+  };
+}
+
+function charLength(value: unknown): number {
+  return typeof value === "string" ? Array.from(value).length : 0;
+}
+
+function byteLength(value: unknown): number {
+  return typeof value === "string" ? Buffer.byteLength(value, "utf8") : 0;
+}
+
+function checkChars(issues: string[], field: string, value: unknown, max: number): void {
+  if (charLength(value) > max) issues.push(`${field} exceeds ${max} characters`);
+}
+
+function checkCount(issues: string[], field: string, value: unknown[] | undefined, max: number, min = 0): void {
+  const count = value?.length ?? 0;
+  if (count > max) issues.push(`${field} allows at most ${max} items (got ${count})`);
+  if (count < min) issues.push(`${field} requires at least ${min} item(s)`);
+}
+
+function checkOptions(issues: string[], field: string, options: WecomCardOption[] | undefined, max: number, textMax: number): void {
+  checkCount(issues, field, options, max, 1);
+  options?.forEach((option, idx) => {
+    if (!option?.id) issues.push(`${field}[${idx}].id is required`);
+    if (byteLength(option?.id) > 128) issues.push(`${field}[${idx}].id exceeds 128 bytes`);
+    if (!option?.text) issues.push(`${field}[${idx}].text is required`);
+    checkChars(issues, `${field}[${idx}].text`, option?.text, textMax);
+  });
+}
+
+/**
+ * Checks a card against the field limits documented for `message/send`
+ * (`msgtype: template_card`). Returns a list of problems; empty means valid.
+ */
+export function validateWecomTemplateCard(card: WecomTemplateCard): string[] {
+  const issues: string[] = [];
+  if (!card || typeof card !== "object") return ["template_card must be an object"];
+  if (!CARD_TYPES.has(card.card_type)) {
+    return [`unsupported card_type: ${String((card as { card_type?: unknown }).card_type)}`];
+  }
+
+  checkChars(issues, "source.desc", card.source?.desc, 13);
+  checkChars(issues, "main_title.title", card.main_title?.title, 26);
+  checkChars(issues, "main_title.desc", card.main_title?.desc, 30);
+  checkChars(issues, "emphasis_content.title", card.emphasis_content?.title, 10);
+  checkChars(issues, "emphasis_content.desc", card.emphasis_content?.desc, 15);
+  checkChars(issues, "sub_title_text", card.sub_title_text, 112);
+  checkChars(issues, "quote_area.title", card.quote_area?.title, 16);
+  checkChars(issues, "quote_area.quote_text", card.quote_area?.quote_text, 42);
+
+  checkCount(issues, "action_menu.action_list", card.action_menu?.action_list, 3);
+  checkCount(issues, "horizontal_content_list", card.horizontal_content_list, 6);
+  card.horizontal_content_list?.forEach((item, idx) => {
+    if (!item?.keyname) issues.push(`horizontal_content_list[${idx}].keyname is required`);
+    checkChars(issues, `horizontal_content_list[${idx}].keyname`, item?.keyname, 5);
+    checkChars(issues, `horizontal_content_list[${idx}].value`, item?.value, 26);
+  });
+  checkCount(issues, "jump_list", card.jump_list, 3);
+  card.jump_list?.forEach((item, idx) => {
+    if (!item?.title) issues.push(`jump_list[${idx}].title is required`);
+    checkChars(issues, `jump_list[${idx}].title`, item?.title, 13);
+  });
+
+  const interactive = isInteractiveTemplateCard(card);
+  if (interactive) {
+    if (!card.task_id) issues.push(`task_id is required for ${card.card_type}`);
+  }
+  if (card.task_id && !TASK_ID_PATTERN.test(card.task_id)) {
+    issues.push("task_id must be 1-128 chars of letters, digits, _ - @");
+  }
+
+  if (card.card_type === "text_notice") {
+    if (!card.main_title?.title && !card.sub_title_text) {
+      issues.push("text_notice requires main_title.title or sub_title_text");
+    }
+  }
+  if (card.card_type === "text_notice" || card.card_type === "news_notice") {
+    if (!card.card_action) issues.push(`card_action is required for ${card.card_type}`);
+  }
+  if (card.card_type === "news_notice") {
+    if (!card.main_title?.title) issues.push("news_notice requires main_title.title");
+    if (!card.card_image?.url && !card.image_text_area?.image_url) {
+      issues.push("news_notice requires card_image.url or image_text_area.image_url");
+    }
+    const ratio = card.card_image?.aspect_ratio;
+    if (typeof ratio === "number" && (ratio < 1.3 || ratio > 2.25)) {
+      issues.push("card_image.aspect_ratio must be between 1.3 and 2.25");
+    }
+    checkCount(issues, "vertical_content_list", card.vertical_content_list, 4);
+    card.vertical_content_list?.forEach((item, idx) => {
+      checkChars(issues, `vertical_content_list[${idx}].title`, item?.title, 26);
+      checkChars(issues, `vertical_content_list[${idx}].desc`, item?.desc, 112);
+    });
+  }
+  if (card.card_type === "button_interaction") {
+    checkCount(issues, "button_list", card.button_list, 6, 1);
+    card.button_list?.forEach((button, idx) => {
+      if (!button?.text) issues.push(`button_list[${idx}].text is required`);
+      checkChars(issues, `button_list[${idx}].text`, button?.text, 10);
+      if (!button?.key) issues.push(`button_list[${idx}].key is required`);
+      if (byteLength(button?.key) > 1024) issues.push(`button_list[${idx}].key exceeds 1024 bytes`);
+    });
+    if (card.button_selection) {
+      checkOptions(issues, "button_selection.option_list", card.button_selection.option_list, 10, 10);
+    }
+  }
+  if (card.card_type === "vote_interaction") {
+    if (!card.checkbox?.question_key) issues.push("checkbox.question_key is required");
+    checkOptions(issues, "checkbox.option_list", card.checkbox?.option_list, 20, 11);
+  }
+  if (card.card_type === "multiple_interaction") {
+    checkCount(issues, "select_list", card.select_list, 3, 1);
+    card.select_list?.forEach((select, idx) => {
+      if (!select?.question_key) issues.push(`select_list[${idx}].question_key is required`);
+      checkChars(issues, `select_list[${idx}].title`, select?.title, 13);
+      checkOptions(issues, `select_list[${idx}].option_list`, select?.option_list, 10, 10);
+    });
+  }
+  if (card.card_type === "vote_interaction" || card.card_type === "multiple_interaction") {
+    if (!card.submit_button?.text || !card.submit_button?.key) {
+      issues.push(`submit_button.text and submit_button.key are required for ${card.card_type}`);
+    }
+    checkChars(issues, "submit_button.text", card.submit_button?.text, 10);
+  }
+
+  return issues;
+}
+
+/**
+ * Detects a `{ "template_card": { ... } }` JSON reply (optionally inside a ```json fence).
+ */
+export function parseTemplateCardReply(text: string): WecomTemplateCard | null {
+  let trimmed = (text ?? "").trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  if (fenced) trimmed = fenced[1]!.trim();
+  if (!trimmed.startsWith("{") || !trimmed.includes("\"template_card\"")) return null;
+  try {
+    const parsed = JSON.parse(trimmed) as { template_card?: unknown };
+    const card = parsed?.template_card;
+    if (!card || typeof card !== "object") return null;
+    return card as WecomTemplateCard;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plain-text rendering for chats where cards cannot be delivered.
+ */
+export function templateCardToText(card: WecomTemplateCard): string {
+  const title = card.main_title?.title || "交互卡片";
+  const desc = card.main_title?.desc || "";
+  const lines = [`【交互卡片】${title}${desc ? `\n${desc}` : ""}`];
+  if (card.sub_title_text) lines.push(card.sub_title_text);
+  for (const item of card.horizontal_content_list ?? []) {
+    lines.push(`${item.keyname}: ${item.value ?? ""}`);
+  }
+  const options = card.button_list?.map((b) => b?.text).filter(Boolean)
+    ?? card.checkbox?.option_list?.map((o) => o?.text).filter(Boolean)
+    ?? [];
+  if (options.length > 0) lines.push(`\n选项: ${options.join(" / ")}`);
+  const url = card.card_action?.url;
+  if (url) lines.push(url);
+  return lines.join("\n");
+}
+
+export type WecomTemplateCardEvent = {
+  eventKey?: string;
+  taskId?: string;
+  cardType?: string;
+  responseCode?: string;
+  selected: Array<{ questionKey: string; optionIds: string[] }>;
+};
+
+/**
+ * Agent-facing text for a card click; shared by bot (JSON) and app (XML) callbacks.
+ */
+export function describeTemplateCardEvent(event: WecomTemplateCardEvent): string {
+  let desc = `[卡片交互] 按钮: ${event.eventKey || "unknown"}`;
+  if (event.selected.length > 0) {
+    const selects = event.selected
+      .map((item) => `${item.questionKey || "unknown"}=${item.optionIds.join(",")}`)
+      .join("; ");
+    if (selects) desc += ` 选择: ${selects}`;
+  }
+  if (event.taskId) desc += ` (任务ID: ${event.taskId})`;
+  return desc;
+}
@@ -2,9 +2,94 @@ export type WecomMode = "bot" | "app" | "both";
 
 export type WecomDmConfig = {
   policy?: "pairing" | "allowlist" | "open" | "disabled";
+  // userid, dept:<id> (incl. sub-departments), tag:<id|name>, corp:<corpid> or "*"
   allowFrom?: Array<string | number>;
 };
 
+export type WecomGroupPolicy = "mention" | "always" | "never" | "allowlist";
+
+export type WecomGroupChatConfig = {
+  enabled?: boolean;
+  policy?: Exclude<WecomGroupPolicy, "allowlist">;
+  // Only these senders may trigger the agent in this chat (userid, dept:<id>, tag:<id|name>, corp:<corpid>)
+  allowFrom?: Array<string | number>;
+  // Route this chat to a specific agent
+  agentId?: string;
+};
+
+export type WecomGroupsConfig = {
+  // mention (default): only when @-mentioned; allowlist: only chats listed in `chats`
+  policy?: WecomGroupPolicy;
+  // Names matched as @<name> in app-mode group text (the bot/app display name)
+  mentionNames?: string[];
+  allowFrom?: Array<string | number>;
+  agentId?: string;
+  // Per-chatid overrides
+  chats?: Record<string, WecomGroupChatConfig>;
+};
+
+export type WecomCommandPermission = "everyone" | "admin" | "disabled";
+
+export type WecomCommandArg = {
+  name: string;
+  required?: boolean;
+  // Takes the rest of the arguments
+  variadic?: boolean;
+  description?: string;
+};
+
+export type WecomCustomCommandConfig = {
+  // Extra names, e.g. ["/周报"]
+  aliases?: string[];
+  // Line shown in /help
+  description?: string;
+  args?: WecomCommandArg[];
+  // Default permission; commands.permissions still overrides it
+  permission?: WecomCommandPermission;
+  // Sent to the agent instead of the command; {args}, {user}, {1}.. and {<arg name>} are filled in
+  prompt?: string;
+  // Replied directly (same placeholders); wins over prompt
+  reply?: string;
+};
+
+export type WecomFileRootConfig = {
+  path: string;
+  // Extra names users can say for this root ("报表"); the root key always works
+  aliases?: string[];
+  // Plugin never writes or cleans up files here (default true)
+  readOnly?: boolean;
+  // Directory levels below the root that may be sent (1 = only files directly inside)
+  maxDepth?: number;
+  // Only these extensions may be sent (["xlsx", "pdf"])
+  extensions?: string[];
+  // Globs never sent from this root (added to files.deny and the built-in list)
+  deny?: string[];
+};
+
+export type WecomProxyConfig = {
+  // http://host:port or https://host:port; credentials may also be given in the URL
+  url: string;
+  username?: string;
+  password?: string;
+  // Hosts reached directly, including their subdomains ("localhost", "corp.local", "*")
+  noProxy?: string[];
+};
+
+export type WecomNetworkConfig = {
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  // Retries after errcode 45009 / 45033 / -1 (default 3)
+  throttleRetries?: number;
+  // Per-corp concurrency limit and minimum gap between API calls (default 3 / 200ms)
+  maxConcurrent?: number;
+  minIntervalMs?: number;
+  // WeCom API host (default https://qyapi.weixin.qq.com); for privately deployed WeCom
+  apiBaseUrl?: string;
+  // Forward proxy for WeCom API, media and vision / audio calls; a string is the proxy URL
+  proxy?: string | WecomProxyConfig;
+};
+
 export type WecomBotConfig = {
   token?: string;
   encodingAESKey?: string;
@@ -28,6 +113,45 @@ export type WecomAccountConfig = {
   webhookPath?: string;
   welcomeText?: string;
   dm?: WecomDmConfig;
+  groups?: WecomGroupsConfig;
+  // Admins: userids, "dept:<id>" (includes sub-departments) or "tag:<id>"
+  admins?: Array<string | number>;
+  // Per-command access ("/sendfile": "admin"); /sendfile, /group and /approve default to admin
+  commands?: {
+    permissions?: Record<string, WecomCommandPermission>;
+    // Extra commands keyed by name ("/周报"): canned replies or agent prompt templates
+    custom?: Record<string, WecomCustomCommandConfig>;
+  };
+  // Directories /sendfile and natural-language file sending may read from
+  files?: {
+    roots?: Record<string, WecomFileRootConfig>;
+    deny?: string[];
+    // Directory levels natural-language requests search below a root (default 3)
+    searchDepth?: number;
+  };
+  // App reply format: plain text (default), WeCom markdown, or markdown only when formatted
+  replyFormat?: "text" | "markdown" | "auto";
+  // App template_card_event: replace clicked card buttons with processedText (default "已处理")
+  templateCard?: {
+    updateOnClick?: boolean;
+    processedText?: string;
+  };
+  // App: answer fast paths (commands, welcome) in the callback response instead of message/send
+  passiveReply?: {
+    enabled?: boolean;
+    timeoutMs?: number;
+  };
+  // Contact directory (needs app credentials): sender names, departments, positions
+  directory?: {
+    enabled?: boolean;
+    ttlHours?: number;
+    cacheDir?: string;
+  };
+  // Where streams, callback dedupe, media cache, pending file lists and tokens live (default memory)
+  state?: {
+    backend?: "memory" | "file" | "sqlite";
+    path?: string;
+  };
 
   // Bot API (intelligent bot) settings
   token?: string;
@@ -90,11 +214,7 @@ export type WecomAccountConfig = {
   };
 
   // Network behavior
-  network?: {
-    timeoutMs?: number;
-    retries?: number;
-    retryDelayMs?: number;
-  };
+  network?: WecomNetworkConfig;
 
   // If true (default), bot mode can bridge media via app send APIs.
   botMediaBridge?: boolean;
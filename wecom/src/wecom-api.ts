@@ -1,66 +1,34 @@
-import { splitWecomText } from "./format.js";
+import crypto from "node:crypto";
+
+import { splitWecomMarkdown, splitWecomText } from "./format.js";
+import { fetchWithWecomProxy, resolveWecomApiBaseUrl } from "./network.js";
+import {
+  isWecomThrottleErrcode,
+  recordWecomRetry,
+  recordWecomThrottled,
+  resolveWecomBackoffMs,
+  runWecomRateLimited,
+} from "./rate-limit.js";
+import { getWecomStateStore } from "./state-store.js";
+import type { WecomTemplateCard } from "./template-card.js";
 import type { ResolvedWecomAccount } from "./types.js";
 
 export type WecomTokenState = {
   token: string | null;
   expiresAt: number;
   refreshPromise: Promise<string> | null;
+  refreshTimer: ReturnType<typeof setTimeout> | null;
+  lastUsedAt: number;
 };
 
-class RateLimiter {
-  private maxConcurrent: number;
-  private minInterval: number;
-  private running: number;
-  private queue: Array<{ fn: () => Promise<any>; resolve: (v: any) => void; reject: (e: any) => void }>;
-  private lastExecution: number;
-
-  constructor({ maxConcurrent = 3, minInterval = 200 } = {}) {
-    this.maxConcurrent = maxConcurrent;
-    this.minInterval = minInterval;
-    this.running = 0;
-    this.queue = [];
-    this.lastExecution = 0;
-  }
-
-  execute<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      this.queue.push({ fn, resolve, reject });
-      this.processQueue();
-    });
-  }
-
-  private async processQueue(): Promise<void> {
-    if (this.running >= this.maxConcurrent || this.queue.length === 0) {
-      return;
-    }
-
-    const now = Date.now();
-    const waitTime = Math.max(0, this.lastExecution + this.minInterval - now);
-
-    if (waitTime > 0) {
-      setTimeout(() => this.processQueue(), waitTime);
-      return;
-    }
-
-    this.running += 1;
-    this.lastExecution = Date.now();
-
-    const { fn, resolve, reject } = this.queue.shift()!;
-
-    try {
-      const result = await fn();
-      resolve(result);
-    } catch (err) {
-      reject(err);
-    } finally {
-      this.running -= 1;
-      this.processQueue();
-    }
-  }
-}
-
 const accessTokenCaches = new Map<string, WecomTokenState>();
-const apiLimiter = new RateLimiter({ maxConcurrent: 3, minInterval: 200 });
+// invalid credential / invalid access_token / access_token expired
+const TOKEN_INVALID_ERRCODES = new Set([40001, 40014, 42001]);
+const TOKEN_REFRESH_AHEAD_MS = 5 * 60 * 1000;
+const TOKEN_REFRESH_RETRY_MS = 30 * 1000;
+const TOKEN_IDLE_MS = 2 * 60 * 60 * 1000;
+// State store namespace; replicas sharing a store reuse each other's tokens.
+const TOKEN_NAMESPACE = "access-token";
 export const MEDIA_TOO_LARGE_ERROR = "MEDIA_TOO_LARGE";
 
 function ensureAppConfig(account: ResolvedWecomAccount): { corpId: string; corpSecret: string; agentId: number } {
@@ -73,38 +41,101 @@ function ensureAppConfig(account: ResolvedWecomAccount): { corpId: string; corpS
   return { corpId, corpSecret, agentId };
 }
 
-function resolveNetworkConfig(account: ResolvedWecomAccount): { timeoutMs: number; retries: number; retryDelayMs: number } {
+function resolveNetworkConfig(account: ResolvedWecomAccount): {
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+  throttleRetries: number;
+} {
   const cfg = account.config.network ?? {};
   const timeoutMs = typeof cfg.timeoutMs === "number" && cfg.timeoutMs > 0 ? cfg.timeoutMs : 15000;
   const retries = typeof cfg.retries === "number" && cfg.retries >= 0 ? cfg.retries : 2;
   const retryDelayMs = typeof cfg.retryDelayMs === "number" && cfg.retryDelayMs >= 0 ? cfg.retryDelayMs : 300;
-  return { timeoutMs, retries, retryDelayMs };
+  const throttleRetries = typeof cfg.throttleRetries === "number" && cfg.throttleRetries >= 0 ? cfg.throttleRetries : 3;
+  return { timeoutMs, retries, retryDelayMs, throttleRetries };
 }
 
 async function sleep(ms: number): Promise<void> {
   await new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function fetchWithRetry(account: ResolvedWecomAccount, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+// Backoff base for 45009 / 45033 / -1: the first retry waits 1-2s, doubling after that;
+// quota windows are counted per minute.
+const THROTTLE_BACKOFF_BASE_MS = 1000;
+
+/**
+ * `cgi-bin` path of a WeCom API URL ("message/send"); null for other hosts (media URLs).
+ */
+function resolveWecomEndpoint(input: RequestInfo | URL): string | null {
+  const raw = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  try {
+    const match = new URL(raw).pathname.match(/\/cgi-bin\/(.+)$/);
+    return match ? match[1]! : null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchWithTimeout(
+  account: ResolvedWecomAccount,
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetchWithWecomProxy(account.config.network, input, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * WeCom API calls go through the per-corp / per-endpoint limiters. Network errors and
+ * HTTP 5xx are retried with exponential backoff and jitter.
+ */
+async function fetchWithRetry(
+  account: ResolvedWecomAccount,
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  options?: { recipient?: string },
+): Promise<Response> {
   const { timeoutMs, retries, retryDelayMs } = resolveNetworkConfig(account);
-  let attempt = 0;
-  let lastErr: unknown;
-  while (attempt <= retries) {
-    const controller = new AbortController();
-    const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const endpoint = resolveWecomEndpoint(input);
+  for (let attempt = 0; ; attempt += 1) {
     try {
-      const res = await apiLimiter.execute(() => fetch(input, { ...init, signal: controller.signal }));
-      clearTimeout(timer);
-      return res;
+      const res = endpoint
+        ? await runWecomRateLimited(account, endpoint, () => fetchWithTimeout(account, input, init, timeoutMs), options)
+        : await fetchWithTimeout(account, input, init, timeoutMs);
+      if (res.status < 500 || attempt >= retries) return res;
+      await res.body?.cancel().catch(() => {});
     } catch (err) {
-      clearTimeout(timer);
-      lastErr = err;
-      if (attempt >= retries) break;
-      await sleep(retryDelayMs * Math.max(1, attempt + 1));
+      if (attempt >= retries) throw err instanceof Error ? err : new Error(String(err));
     }
-    attempt += 1;
+    recordWecomRetry(account);
+    await sleep(resolveWecomBackoffMs(attempt, retryDelayMs));
+  }
+}
+
+/**
+ * Parses the JSON reply; 45009 / 45033 / -1 are retried up to `network.throttleRetries`
+ * times with exponential backoff and jitter.
+ */
+async function fetchWecomJson(
+  account: ResolvedWecomAccount,
+  url: string,
+  init?: RequestInit,
+  options?: { recipient?: string },
+): Promise<any> {
+  const { throttleRetries, retryDelayMs } = resolveNetworkConfig(account);
+  for (let attempt = 0; ; attempt += 1) {
+    const res = await fetchWithRetry(account, url, init, options);
+    const json = await res.json();
+    if (attempt >= throttleRetries || !isWecomThrottleErrcode(json)) return json;
+    recordWecomThrottled(account);
+    await sleep(resolveWecomBackoffMs(attempt + 1, Math.max(retryDelayMs, THROTTLE_BACKOFF_BASE_MS)));
   }
-  throw lastErr instanceof Error ? lastErr : new Error(String(lastErr));
 }
 
 function resolveContentLength(res: Response): number | null {
@@ -124,86 +155,422 @@ function ensureNotTooLarge(res: Response, maxBytes?: number): void {
   }
 }
 
+function resolveTokenCacheKey(corpId: string, corpSecret: string): string {
+  // Each agent has its own secret; keying by corpId alone mixes up agents of one corp.
+  return `${corpId}:${crypto.createHash("sha256").update(corpSecret).digest("hex").slice(0, 16)}`;
+}
+
+function scheduleTokenRefresh(account: ResolvedWecomAccount, cacheKey: string, cache: WecomTokenState, delayMs: number): void {
+  if (cache.refreshTimer) clearTimeout(cache.refreshTimer);
+  cache.refreshTimer = setTimeout(() => {
+    cache.refreshTimer = null;
+    if (accessTokenCaches.get(cacheKey) !== cache) return;
+    // Stop refreshing tokens nobody asked for during a whole token lifetime (e.g. a replaced secret).
+    if (Date.now() - cache.lastUsedAt > TOKEN_IDLE_MS) {
+      accessTokenCaches.delete(cacheKey);
+      return;
+    }
+    void refreshWecomAccessToken(account, cacheKey, cache).catch(() => {
+      if (cache.expiresAt > Date.now()) scheduleTokenRefresh(account, cacheKey, cache, TOKEN_REFRESH_RETRY_MS);
+    });
+  }, Math.max(delayMs, 0));
+  cache.refreshTimer.unref?.();
+}
+
+function refreshWecomAccessToken(account: ResolvedWecomAccount, cacheKey: string, cache: WecomTokenState): Promise<string> {
+  if (cache.refreshPromise) return cache.refreshPromise;
+  const { corpId, corpSecret } = ensureAppConfig(account);
+  cache.refreshPromise = (async () => {
+    try {
+      const store = getWecomStateStore(account);
+      const shared = await store.get<{ token: string; expiresAt: number }>(TOKEN_NAMESPACE, cacheKey);
+      if (shared && shared.token !== cache.token && shared.expiresAt - Date.now() > TOKEN_REFRESH_AHEAD_MS) {
+        cache.token = shared.token;
+        cache.expiresAt = shared.expiresAt;
+        scheduleTokenRefresh(account, cacheKey, cache, shared.expiresAt - Date.now() - TOKEN_REFRESH_AHEAD_MS);
+        return shared.token;
+      }
+
+      const tokenUrl = `${resolveWecomApiBaseUrl(account)}/cgi-bin/gettoken?corpid=${encodeURIComponent(corpId)}&corpsecret=${encodeURIComponent(corpSecret)}`;
+      const tokenJson = await fetchWecomJson(account, tokenUrl);
+      if (!tokenJson?.access_token) {
+        throw new Error(`WeCom gettoken failed: ${JSON.stringify(tokenJson)}`);
+      }
+
+      const expiresInMs = (tokenJson.expires_in || 7200) * 1000;
+      cache.token = tokenJson.access_token;
+      cache.expiresAt = Date.now() + expiresInMs;
+      scheduleTokenRefresh(account, cacheKey, cache, Math.max(expiresInMs - TOKEN_REFRESH_AHEAD_MS, expiresInMs / 2));
+      await store
+        .set(TOKEN_NAMESPACE, cacheKey, { token: cache.token, expiresAt: cache.expiresAt }, { ttlMs: expiresInMs })
+        .catch(() => {});
+
+      return tokenJson.access_token as string;
+    } finally {
+      cache.refreshPromise = null;
+    }
+  })();
+  return cache.refreshPromise;
+}
+
+/**
+ * Cached per (corpId, corpSecret) and refreshed in the background before it expires,
+ * so only the very first call of an agent waits on `gettoken`.
+ */
 export async function getWecomAccessToken(account: ResolvedWecomAccount): Promise<string> {
   const { corpId, corpSecret } = ensureAppConfig(account);
-  const cacheKey = corpId;
+  const cacheKey = resolveTokenCacheKey(corpId, corpSecret);
   let cache = accessTokenCaches.get(cacheKey);
 
   if (!cache) {
-    cache = { token: null, expiresAt: 0, refreshPromise: null };
+    cache = { token: null, expiresAt: 0, refreshPromise: null, refreshTimer: null, lastUsedAt: 0 };
     accessTokenCaches.set(cacheKey, cache);
   }
+  cache.lastUsedAt = Date.now();
 
-  const now = Date.now();
-  if (cache.token && cache.expiresAt > now + 60000) {
+  if (cache.token && cache.expiresAt > Date.now() + 60000) {
     return cache.token;
   }
 
-  if (cache.refreshPromise) {
-    return cache.refreshPromise;
-  }
+  return await refreshWecomAccessToken(account, cacheKey, cache);
+}
 
-  cache.refreshPromise = (async () => {
-    try {
-      const tokenUrl = `https://qyapi.weixin.qq.com/cgi-bin/gettoken?corpid=${encodeURIComponent(corpId)}&corpsecret=${encodeURIComponent(corpSecret)}`;
-      const tokenRes = await fetchWithRetry(account, tokenUrl);
-      const tokenJson = await tokenRes.json();
-      if (!tokenJson?.access_token) {
-        throw new Error(`WeCom gettoken failed: ${JSON.stringify(tokenJson)}`);
-      }
+/**
+ * Drops a token WeCom rejected, also from the state store. Only clears what still holds
+ * `token`, so a token refreshed concurrently is kept.
+ */
+export async function invalidateWecomAccessToken(account: ResolvedWecomAccount, token?: string): Promise<void> {
+  const { corpId, corpSecret } = ensureAppConfig(account);
+  const cacheKey = resolveTokenCacheKey(corpId, corpSecret);
+  const cache = accessTokenCaches.get(cacheKey);
+  if (!cache || (token && cache.token !== token)) return;
+  cache.token = null;
+  cache.expiresAt = 0;
+  const store = getWecomStateStore(account);
+  const shared = await store.get<{ token: string; expiresAt: number }>(TOKEN_NAMESPACE, cacheKey).catch(() => undefined);
+  if (shared && (!token || shared.token === token)) await store.delete(TOKEN_NAMESPACE, cacheKey).catch(() => {});
+}
 
-      cache.token = tokenJson.access_token;
-      cache.expiresAt = Date.now() + (tokenJson.expires_in || 7200) * 1000;
+function isAccessTokenRejected(json: any): boolean {
+  return typeof json?.errcode === "number" && TOKEN_INVALID_ERRCODES.has(json.errcode);
+}
 
-      return cache.token;
-    } finally {
-      cache.refreshPromise = null;
+/**
+ * Calls an access-token endpoint and parses the JSON reply. When WeCom rejects the token
+ * (40001 / 40014 / 42001) the cached token is dropped and the call is retried once.
+ */
+async function fetchWecomJsonWithToken(
+  account: ResolvedWecomAccount,
+  buildUrl: (accessToken: string) => string,
+  init?: RequestInit,
+  options?: { recipient?: string },
+): Promise<any> {
+  for (let attempt = 0; ; attempt += 1) {
+    const accessToken = await getWecomAccessToken(account);
+    const json = await fetchWecomJson(account, buildUrl(accessToken), init, options);
+    if (attempt === 0 && isAccessTokenRejected(json)) {
+      await invalidateWecomAccessToken(account, accessToken);
+      continue;
     }
-  })();
+    return json;
+  }
+}
 
-  return cache.refreshPromise;
+export type WecomSendResult = {
+  msgid?: string;
+  /** All msgids when the message was split into several chunks. */
+  msgids?: string[];
+  invaliduser?: string;
+  invalidparty?: string;
+  invalidtag?: string;
+  /** Returned for interactive template cards; needed to update the card later. */
+  response_code?: string;
+};
+
+export type WecomApiError = Error & {
+  errcode?: number;
+  errmsg?: string;
+  invaliduser?: string;
+  invalidparty?: string;
+  invalidtag?: string;
+};
+
+export function isWecomApiError(err: unknown): err is WecomApiError {
+  return err instanceof Error && typeof (err as WecomApiError).errcode === "number";
 }
 
-async function sendWecomTextSingle(params: {
-  account: ResolvedWecomAccount;
+function buildWecomApiError(label: string, json: any): WecomApiError {
+  const err = new Error(`WeCom ${label} failed: ${JSON.stringify(json)}`) as WecomApiError;
+  err.errcode = typeof json?.errcode === "number" ? json.errcode : -1;
+  err.errmsg = typeof json?.errmsg === "string" ? json.errmsg : undefined;
+  if (json?.invaliduser) err.invaliduser = String(json.invaliduser);
+  if (json?.invalidparty) err.invalidparty = String(json.invalidparty);
+  if (json?.invalidtag) err.invalidtag = String(json.invalidtag);
+  return err;
+}
+
+export type WecomRecipient = {
   toUser: string;
   chatId?: string;
-  text: string;
-}): Promise<void> {
-  const { account, toUser, chatId, text } = params;
+  toParty?: string;
+  toTag?: string;
+  /** Additional recipients, joined with `toUser` / `toParty` / `toTag` as `a|b|c`. */
+  toUsers?: string[];
+  toParties?: string[];
+  toTags?: string[];
+  /** Every member visible to the app (`touser: "@all"`); other recipients are ignored. */
+  all?: boolean;
+};
+
+const MAX_RECIPIENT_USERS = 1000;
+const MAX_RECIPIENT_PARTIES = 100;
+const MAX_RECIPIENT_TAGS = 100;
+
+function joinRecipientIds(label: string, max: number, ...lists: Array<string | string[] | undefined>): string | undefined {
+  const ids = new Set<string>();
+  for (const list of lists) {
+    const values = Array.isArray(list) ? list : list ? [list] : [];
+    for (const value of values) {
+      for (const id of String(value).split("|")) {
+        if (id.trim()) ids.add(id.trim());
+      }
+    }
+  }
+  if (ids.size > max) {
+    throw new Error(`WeCom message/send accepts at most ${max} ${label} (got ${ids.size})`);
+  }
+  return ids.size > 0 ? Array.from(ids).join("|") : undefined;
+}
+
+function buildRecipientFields(recipient: WecomRecipient): { touser?: string; toparty?: string; totag?: string } {
+  if (recipient.all) return { touser: "@all" };
+  const touser = joinRecipientIds("users", MAX_RECIPIENT_USERS, recipient.toUser, recipient.toUsers);
+  const toparty = joinRecipientIds("departments", MAX_RECIPIENT_PARTIES, recipient.toParty, recipient.toParties);
+  const totag = joinRecipientIds("tags", MAX_RECIPIENT_TAGS, recipient.toTag, recipient.toTags);
+  if (!touser && !toparty && !totag) {
+    throw new Error("WeCom message/send requires touser, toparty or totag");
+  }
+  return {
+    ...(touser ? { touser } : {}),
+    ...(toparty ? { toparty } : {}),
+    ...(totag ? { totag } : {}),
+  };
+}
+
+export type WecomRejectedRecipient = {
+  kind: "user" | "party" | "tag";
+  id: string;
+};
+
+/**
+ * Splits `invaliduser` / `invalidparty` / `invalidtag` (`a|b`) into one entry per recipient.
+ */
+export function listWecomRejectedRecipients(result: Pick<WecomSendResult, "invaliduser" | "invalidparty" | "invalidtag">): WecomRejectedRecipient[] {
+  const split = (kind: WecomRejectedRecipient["kind"], value?: string) =>
+    (value ?? "").split("|").map((id) => id.trim()).filter(Boolean).map((id) => ({ kind, id }));
+  return [
+    ...split("user", result.invaliduser),
+    ...split("party", result.invalidparty),
+    ...split("tag", result.invalidtag),
+  ];
+}
+
+async function postWecomMessage(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  msgtype: string;
+  content: Record<string, unknown>;
+  label: string;
+}): Promise<WecomSendResult> {
+  const { account, chatId, msgtype, content, label } = params;
   const { agentId } = ensureAppConfig(account);
-  const accessToken = await getWecomAccessToken(account);
   const useChat = Boolean(chatId);
-  const sendUrl = useChat
-    ? `https://qyapi.weixin.qq.com/cgi-bin/appchat/send?access_token=${encodeURIComponent(accessToken)}`
-    : `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${encodeURIComponent(accessToken)}`;
+  const sendPath = useChat ? "appchat/send" : "message/send";
 
+  const recipientFields = useChat ? {} : buildRecipientFields(params);
   const body = useChat
-    ? { chatid: chatId, msgtype: "text", text: { content: text } }
-    : { touser: toUser, msgtype: "text", agentid: agentId, text: { content: text } };
-
-  const sendRes = await fetchWithRetry(account, sendUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
-  const sendJson = await sendRes.json();
+    ? { chatid: chatId, msgtype, [msgtype]: content }
+    : {
+      ...recipientFields,
+      msgtype,
+      agentid: agentId,
+      [msgtype]: content,
+    };
+
+  // Single-member sends also count against the per-member message/send limit.
+  const { touser, toparty, totag } = recipientFields as ReturnType<typeof buildRecipientFields>;
+  const recipient = touser && !touser.includes("|") && touser !== "@all" && !toparty && !totag ? touser : undefined;
+  const sendJson = await fetchWecomJsonWithToken(
+    account,
+    (accessToken) => `${resolveWecomApiBaseUrl(account)}/cgi-bin/${sendPath}?access_token=${encodeURIComponent(accessToken)}`,
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) },
+    { recipient },
+  );
   if (sendJson?.errcode !== 0) {
-    throw new Error(`WeCom message/send failed: ${JSON.stringify(sendJson)}`);
+    throw buildWecomApiError(label, sendJson);
   }
+  return {
+    msgid: sendJson.msgid ? String(sendJson.msgid) : undefined,
+    invaliduser: sendJson.invaliduser || undefined,
+    invalidparty: sendJson.invalidparty || undefined,
+    invalidtag: sendJson.invalidtag || undefined,
+    response_code: sendJson.response_code ? String(sendJson.response_code) : undefined,
+  };
 }
 
-export async function sendWecomText(params: {
+async function sendWecomTextSingle(params: WecomRecipient & {
   account: ResolvedWecomAccount;
-  toUser: string;
-  chatId?: string;
   text: string;
-}): Promise<void> {
-  const { account, toUser, chatId, text } = params;
+}): Promise<WecomSendResult> {
+  const { text, ...rest } = params;
+  return await postWecomMessage({ ...rest, msgtype: "text", content: { content: text }, label: "message/send" });
+}
+
+/**
+ * Sends text split into WeCom-sized chunks. Returns the result of the last chunk
+ * plus the msgids of every chunk.
+ */
+export async function sendWecomText(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  text: string;
+}): Promise<WecomSendResult> {
+  const { text, ...rest } = params;
   const chunks = splitWecomText(text);
+  let result: WecomSendResult = {};
+  const msgids: string[] = [];
   for (const chunk of chunks) {
     if (!chunk) continue;
-    await sendWecomTextSingle({ account, toUser, chatId, text: chunk });
+    result = await sendWecomTextSingle({ ...rest, text: chunk });
+    if (result.msgid) msgids.push(result.msgid);
+  }
+  return msgids.length > 0 ? { ...result, msgids } : result;
+}
+
+/**
+ * Sends WeCom markdown (already converted to the supported subset), split on line boundaries.
+ */
+export async function sendWecomMarkdown(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  markdown: string;
+}): Promise<WecomSendResult> {
+  const { markdown, ...rest } = params;
+  const chunks = splitWecomMarkdown(markdown);
+  let result: WecomSendResult = {};
+  const msgids: string[] = [];
+  for (const chunk of chunks) {
+    if (!chunk) continue;
+    result = await postWecomMessage({ ...rest, msgtype: "markdown", content: { content: chunk }, label: "markdown send" });
+    if (result.msgid) msgids.push(result.msgid);
+  }
+  return msgids.length > 0 ? { ...result, msgids } : result;
+}
+
+export type WecomTextCard = {
+  title: string;
+  description: string;
+  url: string;
+  btntxt?: string;
+};
+
+export type WecomNewsArticle = {
+  title: string;
+  description?: string;
+  url?: string;
+  picurl?: string;
+};
+
+export type WecomMpnewsArticle = {
+  title: string;
+  thumb_media_id: string;
+  content: string;
+  author?: string;
+  content_source_url?: string;
+  digest?: string;
+};
+
+export async function sendWecomTextCard(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  card: WecomTextCard;
+}): Promise<WecomSendResult> {
+  const { card, ...rest } = params;
+  return await postWecomMessage({ ...rest, msgtype: "textcard", content: card, label: "textcard send" });
+}
+
+export async function sendWecomNews(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  articles: WecomNewsArticle[];
+}): Promise<WecomSendResult> {
+  const { articles, ...rest } = params;
+  return await postWecomMessage({ ...rest, msgtype: "news", content: { articles }, label: "news send" });
+}
+
+export async function sendWecomMpnews(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  articles: WecomMpnewsArticle[];
+}): Promise<WecomSendResult> {
+  const { articles, ...rest } = params;
+  return await postWecomMessage({ ...rest, msgtype: "mpnews", content: { articles }, label: "mpnews send" });
+}
+
+/**
+ * Sends a template card through `message/send`. `appchat/send` does not accept
+ * template cards, so group chat targets are rejected.
+ */
+export async function sendWecomTemplateCard(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  card: WecomTemplateCard;
+}): Promise<WecomSendResult> {
+  const { card, ...rest } = params;
+  if (rest.chatId) {
+    throw new Error("WeCom template_card is not supported for appchat groups");
+  }
+  return await postWecomMessage({ ...rest, msgtype: "template_card", content: card, label: "template_card send" });
+}
+
+/**
+ * Replaces a sent interactive card via `message/update_template_card`.
+ * `responseCode` comes from the template_card_event callback and is single-use.
+ * Pass `replaceName` to switch the buttons to a disabled label, or `card` to replace the whole card.
+ */
+export async function updateWecomTemplateCard(params: {
+  account: ResolvedWecomAccount;
+  responseCode: string;
+  userIds?: string[];
+  replaceName?: string;
+  card?: WecomTemplateCard;
+}): Promise<void> {
+  const { account, responseCode, userIds, replaceName, card } = params;
+  const { agentId } = ensureAppConfig(account);
+  const body = {
+    ...(userIds?.length ? { userids: userIds } : {}),
+    agentid: agentId,
+    response_code: responseCode,
+    ...(card ? { template_card: card } : { button: { replace_name: replaceName ?? "已处理" } }),
+  };
+  const json = await fetchWecomJsonWithToken(
+    account,
+    (accessToken) => `${resolveWecomApiBaseUrl(account)}/cgi-bin/message/update_template_card?access_token=${encodeURIComponent(accessToken)}`,
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) },
+  );
+  if (json?.errcode !== 0) {
+    throw buildWecomApiError("update_template_card", json);
+  }
+}
+
+/**
+ * Withdraws an app message sent through `message/send` (WeCom allows 24 hours).
+ */
+export async function recallWecomMessage(params: {
+  account: ResolvedWecomAccount;
+  msgid: string;
+}): Promise<void> {
+  const { account, msgid } = params;
+  const json = await fetchWecomJsonWithToken(
+    account,
+    (accessToken) => `${resolveWecomApiBaseUrl(account)}/cgi-bin/message/recall?access_token=${encodeURIComponent(accessToken)}`,
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ msgid }) },
+  );
+  if (json?.errcode !== 0) {
+    throw buildWecomApiError("message/recall", json);
   }
 }
 
@@ -214,140 +581,310 @@ export async function uploadWecomMedia(params: {
   filename: string;
 }): Promise<string> {
   const { account, type, buffer, filename } = params;
-  const accessToken = await getWecomAccessToken(account);
-  const uploadUrl = `https://qyapi.weixin.qq.com/cgi-bin/media/upload?access_token=${encodeURIComponent(accessToken)}&type=${encodeURIComponent(type)}`;
-
   const form = new FormData();
   form.append("media", new Blob([buffer]), filename);
 
-  const res = await fetchWithRetry(account, uploadUrl, {
-    method: "POST",
-    body: form,
-  });
-  const json = await res.json();
+  const json = await fetchWecomJsonWithToken(
+    account,
+    (accessToken) => `${resolveWecomApiBaseUrl(account)}/cgi-bin/media/upload?access_token=${encodeURIComponent(accessToken)}&type=${encodeURIComponent(type)}`,
+    { method: "POST", body: form },
+  );
   if (!json?.media_id) {
     throw new Error(`WeCom media upload failed: ${JSON.stringify(json)}`);
   }
   return json.media_id;
 }
 
-export async function sendWecomImage(params: {
+export async function sendWecomImage(params: WecomRecipient & {
   account: ResolvedWecomAccount;
-  toUser: string;
-  chatId?: string;
   mediaId: string;
-}): Promise<void> {
-  const { account, toUser, chatId, mediaId } = params;
-  const { agentId } = ensureAppConfig(account);
-  const accessToken = await getWecomAccessToken(account);
-  const useChat = Boolean(chatId);
-  const sendUrl = useChat
-    ? `https://qyapi.weixin.qq.com/cgi-bin/appchat/send?access_token=${encodeURIComponent(accessToken)}`
-    : `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${encodeURIComponent(accessToken)}`;
+}): Promise<WecomSendResult> {
+  const { mediaId, ...rest } = params;
+  return await postWecomMessage({ ...rest, msgtype: "image", content: { media_id: mediaId }, label: "image send" });
+}
 
-  const body = useChat
-    ? { chatid: chatId, msgtype: "image", image: { media_id: mediaId } }
-    : { touser: toUser, msgtype: "image", agentid: agentId, image: { media_id: mediaId } };
+export async function sendWecomVoice(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  mediaId: string;
+}): Promise<WecomSendResult> {
+  const { mediaId, ...rest } = params;
+  return await postWecomMessage({ ...rest, msgtype: "voice", content: { media_id: mediaId }, label: "voice send" });
+}
 
-  const sendRes = await fetchWithRetry(account, sendUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
-  const sendJson = await sendRes.json();
-  if (sendJson?.errcode !== 0) {
-    throw new Error(`WeCom image send failed: ${JSON.stringify(sendJson)}`);
-  }
+export async function sendWecomVideo(params: WecomRecipient & {
+  account: ResolvedWecomAccount;
+  mediaId: string;
+  title?: string;
+  description?: string;
+}): Promise<WecomSendResult> {
+  const { mediaId, title, description, ...rest } = params;
+  const video = { media_id: mediaId, title: title ?? "Video", description: description ?? "" };
+  return await postWecomMessage({ ...rest, msgtype: "video", content: video, label: "video send" });
 }
 
-export async function sendWecomVoice(params: {
+export async function sendWecomFile(params: WecomRecipient & {
   account: ResolvedWecomAccount;
-  toUser: string;
-  chatId?: string;
   mediaId: string;
-}): Promise<void> {
-  const { account, toUser, chatId, mediaId } = params;
-  const { agentId } = ensureAppConfig(account);
-  const accessToken = await getWecomAccessToken(account);
-  const useChat = Boolean(chatId);
-  const sendUrl = useChat
-    ? `https://qyapi.weixin.qq.com/cgi-bin/appchat/send?access_token=${encodeURIComponent(accessToken)}`
-    : `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${encodeURIComponent(accessToken)}`;
+}): Promise<WecomSendResult> {
+  const { mediaId, ...rest } = params;
+  return await postWecomMessage({ ...rest, msgtype: "file", content: { media_id: mediaId }, label: "file send" });
+}
 
-  const body = useChat
-    ? { chatid: chatId, msgtype: "voice", voice: { media_id: mediaId } }
-    : { touser: toUser, msgtype: "voice", agentid: agentId, voice: { media_id: mediaId } };
+export type WecomUserInfo = {
+  userid: string;
+  name?: string;
+  alias?: string;
+  position?: string;
+  department?: number[];
+  main_department?: number;
+};
 
-  const sendRes = await fetchWithRetry(account, sendUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
-  const sendJson = await sendRes.json();
-  if (sendJson?.errcode !== 0) {
-    throw new Error(`WeCom voice send failed: ${JSON.stringify(sendJson)}`);
+export type WecomDepartmentInfo = {
+  id: number;
+  name?: string;
+  parentid?: number;
+  order?: number;
+};
+
+export type WecomDeptUser = {
+  userid: string;
+  department: number;
+};
+
+export type WecomTagMembers = {
+  userIds: string[];
+  partyIds: number[];
+};
+
+export type WecomTagInfo = {
+  tagid: number;
+  tagname: string;
+};
+
+async function requestWecomJson(params: {
+  account: ResolvedWecomAccount;
+  path: string;
+  query?: Record<string, string>;
+  body?: unknown;
+  label: string;
+}): Promise<any> {
+  const { account, path, query, body, label } = params;
+  const json = await fetchWecomJsonWithToken(
+    account,
+    (accessToken) => `${resolveWecomApiBaseUrl(account)}/cgi-bin/${path}?${new URLSearchParams({ access_token: accessToken, ...(query ?? {}) }).toString()}`,
+    body === undefined
+      ? undefined
+      : { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) },
+  );
+  if (json?.errcode !== 0) {
+    throw buildWecomApiError(label, json);
   }
+  return json;
 }
 
-export async function sendWecomVideo(params: {
+export async function getWecomUser(params: {
   account: ResolvedWecomAccount;
-  toUser: string;
-  chatId?: string;
-  mediaId: string;
-  title?: string;
-  description?: string;
-}): Promise<void> {
-  const { account, toUser, chatId, mediaId, title, description } = params;
-  const { agentId } = ensureAppConfig(account);
-  const accessToken = await getWecomAccessToken(account);
-  const useChat = Boolean(chatId);
-  const sendUrl = useChat
-    ? `https://qyapi.weixin.qq.com/cgi-bin/appchat/send?access_token=${encodeURIComponent(accessToken)}`
-    : `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${encodeURIComponent(accessToken)}`;
+  userId: string;
+}): Promise<WecomUserInfo> {
+  const json = await requestWecomJson({
+    account: params.account,
+    path: "user/get",
+    query: { userid: params.userId },
+    label: "user/get",
+  });
+  return {
+    userid: String(json.userid ?? params.userId),
+    name: json.name ? String(json.name) : undefined,
+    alias: json.alias ? String(json.alias) : undefined,
+    position: json.position ? String(json.position) : undefined,
+    department: Array.isArray(json.department) ? json.department.map((id: unknown) => Number(id)) : undefined,
+    main_department: typeof json.main_department === "number" ? json.main_department : undefined,
+  };
+}
 
-  const video = { media_id: mediaId, title: title ?? "Video", description: description ?? "" };
-  const body = useChat
-    ? { chatid: chatId, msgtype: "video", video }
-    : { touser: toUser, msgtype: "video", agentid: agentId, video };
+/**
+ * Lists departments visible to the app (all of them when `id` is omitted).
+ */
+export async function listWecomDepartments(params: {
+  account: ResolvedWecomAccount;
+  id?: number;
+}): Promise<WecomDepartmentInfo[]> {
+  const json = await requestWecomJson({
+    account: params.account,
+    path: "department/list",
+    query: params.id !== undefined ? { id: String(params.id) } : undefined,
+    label: "department/list",
+  });
+  return Array.isArray(json.department) ? json.department : [];
+}
+
+/**
+ * Pages through `user/list_id`; returns one entry per (userid, department) pair.
+ */
+export async function listWecomUserIds(params: {
+  account: ResolvedWecomAccount;
+  pageSize?: number;
+}): Promise<WecomDeptUser[]> {
+  const result: WecomDeptUser[] = [];
+  let cursor = "";
+  do {
+    const json = await requestWecomJson({
+      account: params.account,
+      path: "user/list_id",
+      body: { cursor, limit: params.pageSize ?? 10000 },
+      label: "user/list_id",
+    });
+    for (const item of Array.isArray(json.dept_user) ? json.dept_user : []) {
+      if (item?.userid) result.push({ userid: String(item.userid), department: Number(item.department) });
+    }
+    cursor = typeof json.next_cursor === "string" ? json.next_cursor : "";
+  } while (cursor);
+  return result;
+}
 
-  const sendRes = await fetchWithRetry(account, sendUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
+export async function listWecomTags(params: {
+  account: ResolvedWecomAccount;
+}): Promise<WecomTagInfo[]> {
+  const json = await requestWecomJson({
+    account: params.account,
+    path: "tag/list",
+    label: "tag/list",
   });
-  const sendJson = await sendRes.json();
-  if (sendJson?.errcode !== 0) {
-    throw new Error(`WeCom video send failed: ${JSON.stringify(sendJson)}`);
-  }
+  return Array.isArray(json.taglist)
+    ? json.taglist
+      .map((item: any) => ({ tagid: Number(item?.tagid), tagname: String(item?.tagname ?? "") }))
+      .filter((item: WecomTagInfo) => Number.isFinite(item.tagid))
+    : [];
 }
 
-export async function sendWecomFile(params: {
+/**
+ * Members of a tag: users listed directly and departments tagged as a whole.
+ */
+export async function getWecomTagMembers(params: {
   account: ResolvedWecomAccount;
-  toUser: string;
-  chatId?: string;
-  mediaId: string;
-}): Promise<void> {
-  const { account, toUser, chatId, mediaId } = params;
-  const { agentId } = ensureAppConfig(account);
-  const accessToken = await getWecomAccessToken(account);
-  const useChat = Boolean(chatId);
-  const sendUrl = useChat
-    ? `https://qyapi.weixin.qq.com/cgi-bin/appchat/send?access_token=${encodeURIComponent(accessToken)}`
-    : `https://qyapi.weixin.qq.com/cgi-bin/message/send?access_token=${encodeURIComponent(accessToken)}`;
+  tagId: string | number;
+}): Promise<WecomTagMembers> {
+  const json = await requestWecomJson({
+    account: params.account,
+    path: "tag/get",
+    query: { tagid: String(params.tagId) },
+    label: "tag/get",
+  });
+  return {
+    userIds: Array.isArray(json.userlist) ? json.userlist.map((item: any) => String(item?.userid ?? "")).filter(Boolean) : [],
+    partyIds: Array.isArray(json.partylist) ? json.partylist.map((id: unknown) => Number(id)).filter((id: number) => Number.isFinite(id)) : [],
+  };
+}
 
-  const body = useChat
-    ? { chatid: chatId, msgtype: "file", file: { media_id: mediaId } }
-    : { touser: toUser, msgtype: "file", agentid: agentId, file: { media_id: mediaId } };
+export async function getWecomUserIdByMobile(params: {
+  account: ResolvedWecomAccount;
+  mobile: string;
+}): Promise<string> {
+  const json = await requestWecomJson({
+    account: params.account,
+    path: "user/getuserid",
+    body: { mobile: params.mobile },
+    label: "user/getuserid",
+  });
+  return String(json.userid ?? "");
+}
 
-  const sendRes = await fetchWithRetry(account, sendUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
+/**
+ * `emailType` 1 = corp mailbox, 2 = personal mailbox.
+ */
+export async function getWecomUserIdByEmail(params: {
+  account: ResolvedWecomAccount;
+  email: string;
+  emailType?: 1 | 2;
+}): Promise<string> {
+  const json = await requestWecomJson({
+    account: params.account,
+    path: "user/get_userid_by_email",
+    body: { email: params.email, email_type: params.emailType ?? 1 },
+    label: "user/get_userid_by_email",
   });
-  const sendJson = await sendRes.json();
-  if (sendJson?.errcode !== 0) {
-    throw new Error(`WeCom file send failed: ${JSON.stringify(sendJson)}`);
+  return String(json.userid ?? "");
+}
+
+export type WecomAppChatInfo = {
+  chatid: string;
+  name?: string;
+  owner?: string;
+  userlist: string[];
+};
+
+/**
+ * Creates an app group chat. WeCom requires at least 2 members; `owner` defaults to a random member.
+ * Returns the chatid (generated by WeCom unless `chatId` is given).
+ */
+export async function createWecomAppChat(params: {
+  account: ResolvedWecomAccount;
+  name?: string;
+  owner?: string;
+  userIds: string[];
+  chatId?: string;
+}): Promise<string> {
+  const { account, name, owner, userIds, chatId } = params;
+  if (userIds.length < 2) {
+    throw new Error("WeCom appchat/create requires at least 2 members");
   }
+  const json = await requestWecomJson({
+    account,
+    path: "appchat/create",
+    body: {
+      ...(name ? { name } : {}),
+      ...(owner ? { owner } : {}),
+      userlist: userIds,
+      ...(chatId ? { chatid: chatId } : {}),
+    },
+    label: "appchat/create",
+  });
+  return String(json.chatid ?? chatId ?? "");
+}
+
+export async function updateWecomAppChat(params: {
+  account: ResolvedWecomAccount;
+  chatId: string;
+  name?: string;
+  owner?: string;
+  addUserIds?: string[];
+  removeUserIds?: string[];
+}): Promise<void> {
+  const { account, chatId, name, owner, addUserIds, removeUserIds } = params;
+  await requestWecomJson({
+    account,
+    path: "appchat/update",
+    body: {
+      chatid: chatId,
+      ...(name ? { name } : {}),
+      ...(owner ? { owner } : {}),
+      ...(addUserIds?.length ? { add_user_list: addUserIds } : {}),
+      ...(removeUserIds?.length ? { del_user_list: removeUserIds } : {}),
+    },
+    label: "appchat/update",
+  });
+}
+
+/**
+ * Only chats created by this app can be read back.
+ */
+export async function getWecomAppChat(params: {
+  account: ResolvedWecomAccount;
+  chatId: string;
+}): Promise<WecomAppChatInfo> {
+  const json = await requestWecomJson({
+    account: params.account,
+    path: "appchat/get",
+    query: { chatid: params.chatId },
+    label: "appchat/get",
+  });
+  const info = json.chat_info ?? {};
+  return {
+    chatid: String(info.chatid ?? params.chatId),
+    name: info.name ? String(info.name) : undefined,
+    owner: info.owner ? String(info.owner) : undefined,
+    userlist: Array.isArray(info.userlist) ? info.userlist.map((id: unknown) => String(id)) : [],
+  };
 }
 
 export async function downloadWecomMedia(params: {
@@ -356,23 +893,39 @@ export async function downloadWecomMedia(params: {
   maxBytes?: number;
 }): Promise<{ buffer: Buffer; contentType: string } > {
   const { account, mediaId, maxBytes } = params;
-  const accessToken = await getWecomAccessToken(account);
-  const mediaUrl = `https://qyapi.weixin.qq.com/cgi-bin/media/get?access_token=${encodeURIComponent(accessToken)}&media_id=${encodeURIComponent(mediaId)}`;
+  const { throttleRetries, retryDelayMs } = resolveNetworkConfig(account);
+  let tokenRetried = false;
+  let throttled = 0;
+  for (;;) {
+    const accessToken = await getWecomAccessToken(account);
+    const mediaUrl = `${resolveWecomApiBaseUrl(account)}/cgi-bin/media/get?access_token=${encodeURIComponent(accessToken)}&media_id=${encodeURIComponent(mediaId)}`;
+
+    const res = await fetchWithRetry(account, mediaUrl);
+    if (!res.ok) {
+      throw new Error(`Failed to download media: ${res.status}`);
+    }
 
-  const res = await fetchWithRetry(account, mediaUrl);
-  if (!res.ok) {
-    throw new Error(`Failed to download media: ${res.status}`);
-  }
+    const contentType = res.headers.get("content-type") || "";
+    if (contentType.includes("application/json")) {
+      const json = await res.json();
+      if (!tokenRetried && isAccessTokenRejected(json)) {
+        tokenRetried = true;
+        await invalidateWecomAccessToken(account, accessToken);
+        continue;
+      }
+      if (throttled < throttleRetries && isWecomThrottleErrcode(json)) {
+        throttled += 1;
+        recordWecomThrottled(account);
+        await sleep(resolveWecomBackoffMs(throttled, Math.max(retryDelayMs, THROTTLE_BACKOFF_BASE_MS)));
+        continue;
+      }
+      throw new Error(`WeCom media download failed: ${JSON.stringify(json)}`);
+    }
+    ensureNotTooLarge(res, maxBytes);
 
-  const contentType = res.headers.get("content-type") || "";
-  ensureNotTooLarge(res, maxBytes);
-  if (contentType.includes("application/json")) {
-    const json = await res.json();
-    throw new Error(`WeCom media download failed: ${JSON.stringify(json)}`);
+    const buffer = Buffer.from(await res.arrayBuffer());
+    return { buffer, contentType };
   }
-
-  const buffer = Buffer.from(await res.arrayBuffer());
-  return { buffer, contentType };
 }
 
 export async function fetchMediaFromUrl(
@@ -1,15 +1,50 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import crypto from "node:crypto";
 import { XMLParser } from "fast-xml-parser";
-import { appendFile, mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
-import { homedir } from "node:os";
-import { basename, dirname, extname, join } from "node:path";
+import { appendFile, mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+
+import type { PluginRuntime } from "openclaw/plugin-sdk";
 
 import type { WecomWebhookTarget } from "./monitor.js";
 import { decryptWecomEncrypted, verifyWecomSignature } from "./crypto.js";
 import { getWecomRuntime } from "./runtime.js";
 import { handleCommand } from "./commands.js";
+import { checkWecomCommandAccess } from "./access.js";
+import {
+  checkWecomFileAccess,
+  isWecomReadOnlyPath,
+  listWecomRootFiles,
+  matchWecomFileRoot,
+  resolveWecomFileRoots,
+  resolveWecomFileSearchDepth,
+  type WecomFileEntry,
+} from "./file-roots.js";
+import { filterWecomFilesByQuery } from "./file-match.js";
+import { buildAppDedupeKey, getWecomAppDedupeStats, isDuplicateAppCallback } from "./app-dedupe.js";
+import {
+  buildWecomPassiveTextReply,
+  createPassiveReplySink,
+  fitsPassiveReply,
+  isPassiveReplyEnabled,
+  resolvePassiveReplyTimeoutMs,
+  type PassiveReplySink,
+} from "./passive-reply.js";
+import { sendWecomReplyText, sendWecomRichMessage } from "./outbound.js";
+import { extractWecomRichMessage, normalizeWecomRichMessage, type WecomRichMessageType } from "./rich-message.js";
 import { markdownToWecomText } from "./format.js";
+import { buildWecomConversation, recordWecomSentMessage } from "./message-store.js";
+import { applyWecomContactChange, formatWecomContactLabel, resolveWecomContact } from "./directory.js";
+import { recordWecomChat } from "./chat-registry.js";
+import { evaluateWecomGroupMessage, withWecomGroupAgentBinding, type WecomGroupDecision } from "./group-policy.js";
+import { evaluateWecomDmAccess } from "./dm-policy.js";
+import {
+  describeTemplateCardEvent,
+  parseTemplateCardReply,
+  templateCardToText,
+  validateWecomTemplateCard,
+  type WecomTemplateCardEvent,
+} from "./template-card.js";
 import {
   extractFileTextPreview,
   resolveAutoAudioConfig,
@@ -19,19 +54,27 @@ import {
   transcribeAudioWithOpenAI,
 } from "./media-auto.js";
 import { describeImageWithVision, resolveVisionConfig } from "./media-vision.js";
+import { getWecomStateStore } from "./state-store.js";
 import {
   MEDIA_TOO_LARGE_ERROR,
   downloadWecomMedia,
   fetchMediaFromUrl,
+  listWecomRejectedRecipients,
   sendWecomFile,
   sendWecomImage,
+  sendWecomTemplateCard,
   sendWecomText,
   sendWecomVideo,
   sendWecomVoice,
+  updateWecomTemplateCard,
   uploadWecomMedia,
+  type WecomRecipient,
+  type WecomRejectedRecipient,
+  type WecomSendResult,
 } from "./wecom-api.js";
 import {
   cleanupMediaDir,
+  loadOutboundMedia,
   resolveExtFromContentType,
   resolveMediaMaxBytes,
   resolveMediaRetentionMs,
@@ -46,7 +89,13 @@ const xmlParser = new XMLParser({
 });
 
 const MAX_REQUEST_BODY_SIZE = 1024 * 1024;
+const WELCOME_EVENTS = new Set(["enter_agent", "subscribe"]);
 const MEDIA_CACHE_MAX_ENTRIES = 200;
+// Media cache entries live as long as media.retentionHours, or this long without it.
+const MEDIA_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// State store namespaces; see state-store.ts.
+const MEDIA_NAMESPACE = "app-media";
+const PENDING_NAMESPACE = "app-pending-files";
 
 type MediaCacheEntry = {
   path: string;
@@ -58,8 +107,6 @@ type MediaCacheEntry = {
   size: number;
 };
 
-const mediaCache = new Map<string, MediaCacheEntry>();
-
 function parseIncomingXml(xml: string): Record<string, any> {
   const obj = xmlParser.parse(xml);
   const root = (obj as any)?.xml ?? obj;
@@ -154,27 +201,29 @@ function resolveSendIntervalMs(target: WecomWebhookTarget): number {
 }
 
 type PendingSendList = {
-  items: { name: string; path: string }[];
+  items: WecomFileEntry[];
   dirLabel: string;
   offset: number;
   createdAt: number;
   expiresAt: number;
 };
 
-const pendingSendLists = new Map<string, PendingSendList>();
 const PENDING_TTL_MS = 10 * 60 * 1000;
 const MAX_LIST_PREVIEW = 30;
 const LIST_MORE_PATTERN = /(更多|下一页|下页|继续|下一批|more|next)/i;
+// Without a filename or extension, a request needs one of these words to count as a file request.
+const FILE_HINT_PATTERN = /(文件|文档|报表|表格|资料|附件|图片|照片|截图)/;
+const LATEST_PATTERN = /(最新|最近)/;
+const FILE_FILLER_PATTERN = /(发送给我|发给我|发我|给我|帮我|麻烦|请|把|将|一下|最新|最近|那个|这个|那份|这份|所有|全部|里面|里边|里的|中的|下的|里|目录|文件夹|文件|附件|的)/g;
 
 function pendingKey(fromUser: string, chatId?: string): string {
   return chatId ? `${fromUser}::${chatId}` : fromUser;
 }
 
-function prunePendingLists(): void {
-  const now = Date.now();
-  for (const [key, entry] of pendingSendLists.entries()) {
-    if (entry.expiresAt <= now) pendingSendLists.delete(key);
-  }
+async function savePendingList(target: WecomWebhookTarget, key: string, pending: PendingSendList): Promise<void> {
+  const ttlMs = pending.expiresAt - Date.now();
+  if (ttlMs <= 0) return;
+  await getWecomStateStore(target.account).set(PENDING_NAMESPACE, key, pending, { ttlMs });
 }
 
 function extractFilenameCandidates(text: string): string[] {
@@ -189,10 +238,6 @@ function extractFilenameCandidates(text: string): string[] {
 }
 
 function extractExtension(text: string): string | null {
-  const match = text.match(/(?:\.|格式|后缀)?\s*([A-Za-z0-9]{2,8})/i);
-  if (!match) return null;
-  const ext = match[1]?.toLowerCase();
-  if (!ext) return null;
   const allowed = new Set([
     "png", "jpg", "jpeg", "gif", "bmp", "webp",
     "pdf", "doc", "docx", "xls", "xlsx", "ppt", "pptx",
@@ -200,22 +245,47 @@ function extractExtension(text: string): string | null {
     "txt", "log", "csv", "json", "xml", "yaml", "yml",
     "mp3", "wav", "amr", "mp4", "mov",
   ]);
-  return allowed.has(ext) ? ext : null;
+  // Skip words that are not extensions ("把 reports 里的 xlsx 发给我").
+  for (const match of text.matchAll(/(?:\.|格式|后缀)?\s*([A-Za-z0-9]{2,8})/gi)) {
+    const ext = match[1]?.toLowerCase();
+    if (ext && allowed.has(ext)) return ext;
+  }
+  return null;
+}
+
+/**
+ * What is left of a request after removing the root name, extension and filler words
+ * ("把最新的周会纪要发给我" -> "周会纪要"); used for fuzzy / pinyin matching.
+ */
+function extractFileQuery(text: string, ignore: string[]): string {
+  let value = text.toLowerCase();
+  for (const word of ignore) {
+    if (word) value = value.split(word.toLowerCase()).join(" ");
+  }
+  return value
+    .replace(FILE_FILLER_PATTERN, " ")
+    .replace(/[\s，,。.!！?？:：；;、"“”'‘’]+/g, " ")
+    .trim();
 }
 
-function resolveSearchDir(text: string, target: WecomWebhookTarget): { path: string; label: string } {
-  const lower = text.toLowerCase();
-  if (text.includes("桌面")) return { path: join(homedir(), "Desktop"), label: "桌面" };
-  if (text.includes("下载") || lower.includes("download")) return { path: join(homedir(), "Downloads"), label: "下载" };
-  if (text.includes("临时") || lower.includes("tmp")) return { path: resolveMediaTempDir(target), label: "临时目录" };
-  return { path: resolveMediaTempDir(target), label: "临时目录" };
+function formatFileSize(size: number): string {
+  if (size < 1024) return `${size}B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)}KB`;
+  if (size < 1024 * 1024 * 1024) return `${(size / 1024 / 1024).toFixed(1)}MB`;
+  return `${(size / 1024 / 1024 / 1024).toFixed(1)}GB`;
 }
 
-function parseSelection(text: string, items: { name: string; path: string }[]): { name: string; path: string }[] | null {
+function formatFileTime(mtimeMs: number): string {
+  const date = new Date(mtimeMs);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function parseSelection(text: string, items: WecomFileEntry[]): WecomFileEntry[] | null {
   const trimmed = text.trim();
   if (!trimmed) return null;
   if (/全部|都要|全都|都给我/.test(trimmed)) return items;
-  const picked: { name: string; path: string }[] = [];
+  const picked: WecomFileEntry[] = [];
   const numbers = Array.from(trimmed.matchAll(/\d+/g)).map((m) => Number(m[0]));
   if (numbers.length > 0) {
     for (const idx of numbers) {
@@ -225,9 +295,8 @@ function parseSelection(text: string, items: { name: string; path: string }[]):
   }
   const names = extractFilenameCandidates(trimmed);
   if (names.length > 0) {
-    const map = new Map(items.map((item) => [item.name, item]));
     for (const name of names) {
-      const item = map.get(name);
+      const item = items.find((entry) => entry.name === name || basename(entry.name) === name);
       if (item) picked.push(item);
     }
   }
@@ -239,13 +308,13 @@ function buildPendingListText(pending: PendingSendList): { text: string; hasMore
   const total = pending.items.length;
   const slice = pending.items.slice(start, start + MAX_LIST_PREVIEW);
   const preview = slice
-    .map((item, idx) => `${start + idx + 1}. ${item.name}`)
+    .map((item, idx) => `${start + idx + 1}. ${item.name}（${formatFileSize(item.size)}，${formatFileTime(item.mtimeMs)}）`)
     .join("\n");
   const hasMore = start + MAX_LIST_PREVIEW < total;
   const tail = hasMore
     ? `\n…共 ${total} 个文件，回复“更多”查看下一页。`
     : `\n共 ${total} 个文件。`;
-  const text = `在${pending.dirLabel}找到 ${total} 个文件：\n${preview}${tail}\n\n回复“全部”或“1 3 5”或直接发送具体文件名。`;
+  const text = `在${pending.dirLabel}找到 ${total} 个文件（按修改时间从新到旧）：\n${preview}${tail}\n\n回复“全部”或“1 3 5”或直接发送具体文件名。`;
   return { text, hasMore };
 }
 
@@ -258,9 +327,9 @@ async function tryHandleNaturalFileSend(params: {
 }): Promise<boolean> {
   const { target, text, fromUser, chatId, isGroup } = params;
   if (!text || text.trim().startsWith("/")) return false;
-  prunePendingLists();
+  const store = getWecomStateStore(target.account, target.runtime.log);
   const key = pendingKey(fromUser, chatId);
-  const pending = pendingSendLists.get(key);
+  const pending = await store.get<PendingSendList>(PENDING_NAMESPACE, key);
   if (pending) {
     if (LIST_MORE_PATTERN.test(text)) {
       const nextOffset = pending.offset + MAX_LIST_PREVIEW;
@@ -274,6 +343,7 @@ async function tryHandleNaturalFileSend(params: {
         return true;
       }
       pending.offset = nextOffset;
+      await savePendingList(target, key, pending);
       const { text: listText } = buildPendingListText(pending);
       await sendWecomText({
         account: target.account,
@@ -285,7 +355,7 @@ async function tryHandleNaturalFileSend(params: {
     }
     const selection = parseSelection(text, pending.items);
     if (selection) {
-      pendingSendLists.delete(key);
+      await store.delete(PENDING_NAMESPACE, key);
       await sendFilesByPath({ target, fromUser, chatId, isGroup, items: selection });
       return true;
     }
@@ -294,64 +364,87 @@ async function tryHandleNaturalFileSend(params: {
   if (!/(发给我|发送给我|发我|给我)/.test(text)) return false;
   const names = extractFilenameCandidates(text);
   const ext = extractExtension(text);
-  if (names.length === 0 && !ext) return false;
+  // Only files.roots are searched; without a root name the first root is used.
+  const namedRoot = matchWecomFileRoot(target.account, text);
+  const root = namedRoot ?? resolveWecomFileRoots(target.account)[0];
+  const latest = LATEST_PATTERN.test(text);
+  const query = names.length === 0 && (namedRoot || FILE_HINT_PATTERN.test(text))
+    ? extractFileQuery(text, [...(root?.names ?? []), ...(ext ? [ext] : [])])
+    : "";
+  if (names.length === 0 && !ext && !query && !(latest && (namedRoot || FILE_HINT_PATTERN.test(text)))) {
+    return false;
+  }
 
-  const searchDir = resolveSearchDir(text, target);
-  let dirEntries: string[] = [];
-  try {
-    dirEntries = await readdir(searchDir.path);
-  } catch {
-    dirEntries = [];
+  // Natural-language file sending serves the same files as /sendfile and shares its permission.
+  // Checked before walking the root; users without it just talk to the agent.
+  const access = await checkWecomCommandAccess({
+    account: target.account,
+    userId: fromUser,
+    command: "/sendfile",
+    log: target.runtime.log,
+  });
+  if (!access.allowed) {
+    logVerbose(target, `natural file send denied for ${fromUser} (${access.permission}), passing to agent`);
+    await appendOperationLog(target, {
+      action: "denied",
+      accountId: target.account.accountId,
+      command: "natural-file-send",
+      permission: access.permission,
+      toUser: fromUser,
+      chatId: isGroup ? chatId : undefined,
+      textPreview: text.slice(0, 120),
+    });
+    return false;
   }
-  const dirSet = new Set(dirEntries);
 
-  const resolved: { name: string; path: string }[] = [];
+  // Newest first, searchDepth levels below the root.
+  const available = root
+    ? (await listWecomRootFiles(target.account, root, resolveWecomFileSearchDepth(target.account)))
+      .sort((a, b) => b.mtimeMs - a.mtimeMs)
+    : [];
+
+  let resolved: WecomFileEntry[] = [];
   const missing: string[] = [];
   if (names.length > 0) {
     for (const name of names) {
-      let fullPath = "";
       if (name.startsWith("/")) {
-        fullPath = name;
-      } else if (dirSet.has(name)) {
-        fullPath = join(searchDir.path, name);
-      }
-      if (!fullPath) {
-        missing.push(name);
-        continue;
-      }
-      try {
-        const info = await stat(fullPath);
-        if (info.isFile()) {
-          resolved.push({ name: basename(fullPath), path: fullPath });
+        const access = await checkWecomFileAccess(target.account, name);
+        if (access.ok && !access.isDirectory) {
+          resolved.push({ name: basename(name), path: access.realPath, size: access.size, mtimeMs: access.mtimeMs });
         } else {
-          missing.push(name);
+          missing.push(access.ok ? name : `${name}(${access.reason})`);
         }
-      } catch {
+        continue;
+      }
+      const matches = available.filter((item) => item.name === name || basename(item.name) === name);
+      if (matches.length > 0) {
+        resolved.push(...matches);
+      } else {
         missing.push(name);
       }
     }
-  } else if (ext) {
-    for (const entry of dirEntries) {
-      if (!entry.toLowerCase().endsWith(`.${ext}`)) continue;
-      const fullPath = join(searchDir.path, entry);
-      try {
-        const info = await stat(fullPath);
-        if (info.isFile()) {
-          resolved.push({ name: entry, path: fullPath });
-        }
-      } catch {
-        // ignore
-      }
+  } else {
+    resolved = ext ? available.filter((item) => item.name.toLowerCase().endsWith(`.${ext}`)) : available;
+    if (query) {
+      resolved = filterWecomFilesByQuery(resolved, query);
+      if (resolved.length === 0) missing.push(query);
     }
+    // "最新的报表发给我": only the most recent match.
+    if (latest) resolved = resolved.slice(0, 1);
   }
 
+  // A loose request ("给我画一张图片") that matches nothing is left to the agent.
+  if (resolved.length === 0 && names.length === 0 && !ext && !namedRoot) return false;
+
   if (resolved.length === 0) {
-    const hint = dirEntries.length ? `可用文件示例：${dirEntries.slice(0, 5).join(", ")}` : "当前目录无可用文件";
+    const hint = available.length
+      ? `可用文件示例：${available.slice(0, 5).map((item) => item.name).join(", ")}`
+      : root ? `${root.label}中没有可发送的文件` : "未配置可发送的目录（files.roots）";
     await sendWecomText({
       account: target.account,
       toUser: fromUser,
       chatId: isGroup ? chatId : undefined,
-      text: `未找到指定文件：${missing.join(", ")}。\n${hint}`,
+      text: `未找到指定文件：${missing.length ? missing.join(", ") : ext ? `.${ext}` : "（无）"}。\n${hint}`,
     });
     return true;
   }
@@ -361,14 +454,15 @@ async function tryHandleNaturalFileSend(params: {
     return true;
   }
 
-  pendingSendLists.set(key, {
+  const list: PendingSendList = {
     items: resolved,
-    dirLabel: searchDir.label,
+    dirLabel: root?.label ?? "允许的目录",
     offset: 0,
     createdAt: Date.now(),
     expiresAt: Date.now() + PENDING_TTL_MS,
-  });
-  const { text: listText } = buildPendingListText(pendingSendLists.get(key)!);
+  };
+  await savePendingList(target, key, list);
+  const { text: listText } = buildPendingListText(list);
   await sendWecomText({
     account: target.account,
     toUser: fromUser,
@@ -392,17 +486,31 @@ async function sendFilesByPath(params: {
   const failed: string[] = [];
   for (const item of items) {
     try {
-      const info = await stat(item.path);
-      if (maxBytes && info.size > maxBytes) {
+      // Re-checked at send time: the file may have changed since it was listed.
+      const access = await checkWecomFileAccess(target.account, item.path);
+      if (!access.ok || access.isDirectory) {
+        failed.push(`${item.name}(${access.ok ? "不是文件" : access.reason})`);
+        await appendOperationLog(target, {
+          action: "denied",
+          accountId: target.account.accountId,
+          command: "natural-file-send",
+          toUser: fromUser,
+          chatId,
+          path: item.path,
+          reason: access.ok ? "directory" : access.reason,
+        });
+        continue;
+      }
+      if (maxBytes && access.size > maxBytes) {
         failed.push(`${item.name}(过大)`);
         continue;
       }
-      const buffer = await readFile(item.path);
+      const buffer = await readFile(access.realPath);
       const mediaId = await uploadWecomMedia({
         account: target.account,
         type: "file",
         buffer,
-        filename: item.name,
+        filename: basename(item.name),
       });
       await sendWecomFile({
         account: target.account,
@@ -416,8 +524,8 @@ async function sendFilesByPath(params: {
         accountId: target.account.accountId,
         toUser: fromUser,
         chatId,
-        path: item.path,
-        size: info.size,
+        path: access.realPath,
+        size: access.size,
       });
       if (intervalMs) await sleep(intervalMs);
     } catch (err) {
@@ -461,20 +569,6 @@ function isTextCommand(text: string): boolean {
 }
 
 
-function normalizeMediaType(raw?: string): "image" | "voice" | "video" | "file" | null {
-  if (!raw) return null;
-  const value = raw.toLowerCase();
-  if (value === "image" || value === "voice" || value === "video" || value === "file") return value;
-  return null;
-}
-
-function pickString(...values: unknown[]): string {
-  for (const value of values) {
-    if (typeof value === "string" && value.trim()) return value.trim();
-  }
-  return "";
-}
-
 function isMediaTooLargeError(err: unknown): boolean {
   if (!err) return false;
   if (typeof err === "string") return err.includes(MEDIA_TOO_LARGE_ERROR);
@@ -487,138 +581,6 @@ function isMediaTooLargeError(err: unknown): boolean {
   return false;
 }
 
-function resolveContentTypeFromExt(ext: string): string {
-  const value = ext.toLowerCase();
-  if (value === "png") return "image/png";
-  if (value === "gif") return "image/gif";
-  if (value === "jpg" || value === "jpeg") return "image/jpeg";
-  if (value === "webp") return "image/webp";
-  if (value === "bmp") return "image/bmp";
-  if (value === "amr") return "audio/amr";
-  if (value === "wav") return "audio/wav";
-  if (value === "mp3") return "audio/mpeg";
-  if (value === "m4a") return "audio/mp4";
-  if (value === "mp4") return "video/mp4";
-  if (value === "mov") return "video/quicktime";
-  if (value === "avi") return "video/x-msvideo";
-  if (value === "pdf") return "application/pdf";
-  if (value === "txt") return "text/plain";
-  if (value === "csv") return "text/csv";
-  if (value === "json") return "application/json";
-  if (value === "doc") return "application/msword";
-  if (value === "docx") return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-  if (value === "xls") return "application/vnd.ms-excel";
-  if (value === "xlsx") return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
-  if (value === "ppt") return "application/vnd.ms-powerpoint";
-  if (value === "pptx") return "application/vnd.openxmlformats-officedocument.presentationml.presentation";
-  if (value === "zip") return "application/zip";
-  return "application/octet-stream";
-}
-
-function resolveMediaTypeFromContentType(contentType: string): "image" | "voice" | "video" | "file" {
-  const value = contentType.toLowerCase();
-  if (value.startsWith("image/")) return "image";
-  if (value.startsWith("audio/")) return "voice";
-  if (value.startsWith("video/")) return "video";
-  return "file";
-}
-
-function stripFileProtocol(rawPath: string): string {
-  return rawPath.startsWith("file://") ? rawPath.replace(/^file:\/\//, "") : rawPath;
-}
-
-function parseBase64Input(input: string): { data: string; mimeType?: string } {
-  const match = input.match(/^data:([^;]+);base64,(.*)$/i);
-  if (match) {
-    return { data: match[2], mimeType: match[1] };
-  }
-  return { data: input };
-}
-
-function resolveOutboundMediaSpec(payload: any): {
-  type?: string;
-  url?: string;
-  path?: string;
-  base64?: string;
-  filename?: string;
-  mimeType?: string;
-} | null {
-  if (!payload || typeof payload !== "object") return null;
-  const mediaBlockRaw = payload.media ?? payload.attachment ?? payload.file ?? payload.files;
-  const mediaBlock = Array.isArray(mediaBlockRaw) ? mediaBlockRaw[0] : mediaBlockRaw;
-  const url = pickString(
-    payload.mediaUrl,
-    mediaBlock?.url,
-    mediaBlock?.mediaUrl,
-    mediaBlock?.fileUrl,
-    mediaBlock?.file_url,
-  );
-  const path = pickString(
-    payload.mediaPath,
-    payload.filePath,
-    mediaBlock?.path,
-    mediaBlock?.filePath,
-    mediaBlock?.localPath,
-  );
-  const base64 = pickString(
-    payload.mediaBase64,
-    payload.base64,
-    mediaBlock?.base64,
-    mediaBlock?.data,
-  );
-  const type = pickString(payload.mediaType, mediaBlock?.type, mediaBlock?.mediaType);
-  const filename = pickString(payload.filename, payload.fileName, mediaBlock?.filename, mediaBlock?.fileName, mediaBlock?.name);
-  const mimeType = pickString(payload.mimeType, payload.mediaMimeType, mediaBlock?.mimeType, mediaBlock?.contentType);
-  let finalUrl = url;
-  let finalPath = path;
-  if (!finalPath && finalUrl && (finalUrl.startsWith("/") || finalUrl.startsWith("file://"))) {
-    finalPath = finalUrl;
-    finalUrl = "";
-  }
-  if (!finalUrl && !finalPath && !base64) return null;
-  return { type, url: finalUrl, path: finalPath, base64, filename, mimeType };
-}
-
-async function loadOutboundMedia(params: {
-  payload: any;
-  account: WecomWebhookTarget["account"];
-  maxBytes: number | undefined;
-}): Promise<{ buffer: Buffer; contentType: string; type: "image" | "voice" | "video" | "file"; filename: string } | null> {
-  const spec = resolveOutboundMediaSpec(params.payload);
-  if (!spec) return null;
-
-  let buffer: Buffer | null = null;
-  let contentType = spec.mimeType ?? "";
-  let filename = spec.filename ?? "";
-
-  if (spec.base64) {
-    const parsed = parseBase64Input(spec.base64);
-    buffer = Buffer.from(parsed.data, "base64");
-    if (!contentType && parsed.mimeType) contentType = parsed.mimeType;
-  } else if (spec.path) {
-    const resolvedPath = stripFileProtocol(spec.path);
-    buffer = await readFile(resolvedPath);
-    if (!filename) filename = basename(resolvedPath);
-    if (!contentType) {
-      const ext = extname(resolvedPath).replace(".", "");
-      contentType = resolveContentTypeFromExt(ext);
-    }
-  } else if (spec.url) {
-    const media = await fetchMediaFromUrl(spec.url, params.account, params.maxBytes);
-    buffer = media.buffer;
-    if (!contentType) contentType = media.contentType;
-  }
-
-  if (!buffer) return null;
-  if (params.maxBytes && buffer.length > params.maxBytes) return null;
-
-  const type = normalizeMediaType(spec.type) ?? resolveMediaTypeFromContentType(contentType || "application/octet-stream");
-  const ext = resolveExtFromContentType(contentType || "application/octet-stream", type);
-  const safeName = sanitizeFilename(filename, `${type}.${ext}`);
-
-  return { buffer, contentType: contentType || resolveContentTypeFromExt(ext), type, filename: safeName };
-}
-
 function hashKey(input: string): string {
   return crypto.createHash("sha1").update(input).digest("hex");
 }
@@ -629,40 +591,70 @@ function buildMediaCacheKey(params: { mediaId?: string; url?: string }): string
   return null;
 }
 
-function pruneMediaCache(): void {
-  if (mediaCache.size <= MEDIA_CACHE_MAX_ENTRIES) return;
-  const entries = Array.from(mediaCache.entries())
-    .sort((a, b) => a[1].createdAt - b[1].createdAt);
-  const excess = entries.length - MEDIA_CACHE_MAX_ENTRIES;
-  for (let i = 0; i < excess; i += 1) {
-    mediaCache.delete(entries[i]![0]);
-  }
-}
-
-async function getCachedMedia(
-  key: string | null,
-  retentionMs?: number,
-): Promise<MediaCacheEntry | null> {
+async function getCachedMedia(target: WecomWebhookTarget, key: string | null): Promise<MediaCacheEntry | null> {
   if (!key) return null;
-  const entry = mediaCache.get(key);
+  const store = getWecomStateStore(target.account);
+  const entry = await store.get<MediaCacheEntry>(MEDIA_NAMESPACE, key);
   if (!entry) return null;
-  if (retentionMs && Date.now() - entry.createdAt > retentionMs) {
-    mediaCache.delete(key);
-    return null;
-  }
   try {
     await stat(entry.path);
   } catch {
-    mediaCache.delete(key);
+    await store.delete(MEDIA_NAMESPACE, key);
     return null;
   }
   return entry;
 }
 
-function storeCachedMedia(key: string | null, entry: MediaCacheEntry): void {
+async function storeCachedMedia(target: WecomWebhookTarget, key: string | null, entry: MediaCacheEntry): Promise<void> {
   if (!key) return;
-  mediaCache.set(key, entry);
-  pruneMediaCache();
+  await getWecomStateStore(target.account).set(MEDIA_NAMESPACE, key, entry, {
+    ttlMs: resolveMediaRetentionMs(target) ?? MEDIA_CACHE_TTL_MS,
+    maxEntries: MEDIA_CACHE_MAX_ENTRIES,
+  });
+}
+
+function toXmlList(value: unknown): any[] {
+  if (value === undefined || value === null || value === "") return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function parseTemplateCardEvent(msgObj: Record<string, any>): WecomTemplateCardEvent {
+  const selected = toXmlList(msgObj?.SelectedItems?.SelectedItem).map((item) => ({
+    questionKey: String(item?.QuestionKey ?? "unknown"),
+    optionIds: toXmlList(item?.OptionIds?.OptionId).map((id) => String(id)),
+  }));
+  return {
+    eventKey: msgObj?.EventKey !== undefined ? String(msgObj.EventKey) : undefined,
+    taskId: msgObj?.TaskId !== undefined ? String(msgObj.TaskId) : undefined,
+    cardType: msgObj?.CardType !== undefined ? String(msgObj.CardType) : undefined,
+    responseCode: msgObj?.ResponseCode ? String(msgObj.ResponseCode) : undefined,
+    selected,
+  };
+}
+
+async function markTemplateCardProcessed(params: {
+  target: WecomWebhookTarget;
+  fromUser: string;
+  event: WecomTemplateCardEvent;
+}): Promise<void> {
+  const { target, fromUser, event } = params;
+  const settings = target.account.config.templateCard;
+  if (settings?.updateOnClick === false || !event.responseCode) return;
+  // Only interactive cards carry buttons that can be replaced.
+  if (event.cardType && !["button_interaction", "vote_interaction", "multiple_interaction"].includes(event.cardType)) {
+    return;
+  }
+  try {
+    await updateWecomTemplateCard({
+      account: target.account,
+      responseCode: event.responseCode,
+      userIds: [fromUser],
+      replaceName: settings?.processedText?.trim() || "已处理",
+    });
+    logVerbose(target, `app template_card updated (task=${event.taskId ?? "N/A"}) for ${fromUser}`);
+  } catch (err) {
+    target.runtime.error?.(`wecom app template_card update failed: ${String(err)}`);
+  }
 }
 
 async function startAgentForApp(params: {
@@ -677,21 +669,25 @@ async function startAgentForApp(params: {
     mimeType?: string;
     url?: string;
   } | null;
+  group?: WecomGroupDecision | null;
 }): Promise<void> {
-  const { target, fromUser, chatId, isGroup, messageText, media } = params;
+  const { target, fromUser, chatId, isGroup, messageText, media, group } = params;
   const core = getWecomRuntime();
   const config = target.config;
   const account = target.account;
 
   const peerId = isGroup ? (chatId || "unknown") : fromUser;
   const route = core.channel.routing.resolveAgentRoute({
-    cfg: config,
+    cfg: isGroup
+      ? withWecomGroupAgentBinding({ cfg: config, accountId: account.accountId, chatId: peerId, agentId: group?.agentId })
+      : config,
     channel: "wecom",
     accountId: account.accountId,
     peer: { kind: isGroup ? "group" : "dm", id: peerId },
   });
 
   const fromLabel = isGroup ? `group:${peerId}` : `user:${fromUser}`;
+  const contact = await resolveWecomContact({ account, userId: fromUser, log: target.runtime.log });
   const storePath = core.channel.session.resolveStorePath(config.session?.store, {
     agentId: route.agentId,
   });
@@ -702,7 +698,7 @@ async function startAgentForApp(params: {
   });
   const body = core.channel.reply.formatAgentEnvelope({
     channel: "WeCom",
-    from: fromLabel,
+    from: isGroup ? fromLabel : formatWecomContactLabel(contact),
     previousTimestamp,
     envelope: envelopeOptions,
     body: messageText,
@@ -718,8 +714,9 @@ async function startAgentForApp(params: {
     AccountId: route.accountId,
     ChatType: isGroup ? "group" : "direct",
     ConversationLabel: fromLabel,
-    SenderName: fromUser,
+    SenderName: contact.name,
     SenderId: fromUser,
+    WasMentioned: isGroup ? group?.wasMentioned : undefined,
     Provider: "wecom",
     Surface: "wecom",
     MessageSid: `wecom-${Date.now()}`,
@@ -727,6 +724,13 @@ async function startAgentForApp(params: {
     OriginatingTo: `wecom:${peerId}`,
   });
 
+  if (contact.departments.length > 0) {
+    (ctxPayload as any).SenderDepartment = contact.departments.join("、");
+  }
+  if (contact.position) {
+    (ctxPayload as any).SenderPosition = contact.position;
+  }
+
   if (media?.path) {
     ctxPayload.MediaPath = media.path;
     ctxPayload.MediaType = media.type;
@@ -759,6 +763,11 @@ async function startAgentForApp(params: {
     accountId: account.accountId,
   });
 
+  const conversation = buildWecomConversation({ toUser: fromUser, chatId: isGroup ? chatId : undefined });
+  const recordReply = (result: WecomSendResult) => {
+    recordWecomSentMessage({ accountId: account.accountId, conversation, msgids: result.msgids ?? [result.msgid] });
+  };
+
   await core.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
     ctx: ctxPayload,
     cfg: config,
@@ -775,18 +784,18 @@ async function startAgentForApp(params: {
               filename: outbound.filename,
             });
             if (outbound.type === "image") {
-              await sendWecomImage({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, mediaId });
+              recordReply(await sendWecomImage({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, mediaId }));
               logVerbose(target, `app image reply delivered (${info.kind}) to ${fromUser}`);
             } else if (outbound.type === "voice") {
-              await sendWecomVoice({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, mediaId });
+              recordReply(await sendWecomVoice({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, mediaId }));
               logVerbose(target, `app voice reply delivered (${info.kind}) to ${fromUser}`);
             } else if (outbound.type === "video") {
               const title = (payload as any).title as string | undefined;
               const description = (payload as any).description as string | undefined;
-              await sendWecomVideo({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, mediaId, title, description });
+              recordReply(await sendWecomVideo({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, mediaId, title, description }));
               logVerbose(target, `app video reply delivered (${info.kind}) to ${fromUser}`);
             } else if (outbound.type === "file") {
-              await sendWecomFile({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, mediaId });
+              recordReply(await sendWecomFile({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, mediaId }));
               logVerbose(target, `app file reply delivered (${info.kind}) to ${fromUser}`);
             }
             target.statusSink?.({ lastOutboundAt: Date.now() });
@@ -795,9 +804,50 @@ async function startAgentForApp(params: {
           target.runtime.error?.(`wecom app media reply failed: ${String(err)}`);
         }
 
-        const text = markdownToWecomText(core.channel.text.convertMarkdownTables(payload.text ?? "", tableMode));
-        if (!text) return;
-        await sendWecomText({ account, toUser: fromUser, chatId: isGroup ? chatId : undefined, text });
+        const richMessage = extractWecomRichMessage(payload);
+        if (richMessage) {
+          recordReply(await sendWecomRichMessage({
+            account,
+            toUser: fromUser,
+            chatId: isGroup ? chatId : undefined,
+            message: richMessage,
+            log: target.runtime.log,
+          }));
+          target.statusSink?.({ lastOutboundAt: Date.now() });
+          logVerbose(target, `app ${richMessage.type} reply delivered (${info.kind}) to ${fromUser}`);
+          return;
+        }
+
+        let rawText = payload.text ?? "";
+        const card = parseTemplateCardReply(rawText);
+        if (card) {
+          const issues = validateWecomTemplateCard(card);
+          if (isGroup) {
+            logVerbose(target, "template_card is not supported in appchat groups, sending as text");
+          } else if (issues.length > 0) {
+            target.runtime.log?.(`[wecom] template_card invalid, sending as text: ${issues.join("; ")}`);
+          } else {
+            try {
+              recordReply(await sendWecomTemplateCard({ account, toUser: fromUser, card }));
+              target.statusSink?.({ lastOutboundAt: Date.now() });
+              logVerbose(target, `app template_card delivered (${info.kind}) to ${fromUser}`);
+              return;
+            } catch (err) {
+              target.runtime.error?.(`wecom app template_card failed, sending as text: ${String(err)}`);
+            }
+          }
+          rawText = templateCardToText(card);
+        }
+
+        const text = core.channel.text.convertMarkdownTables(rawText, tableMode);
+        if (!text.trim()) return;
+        recordReply(await sendWecomReplyText({
+          account,
+          toUser: fromUser,
+          chatId: isGroup ? chatId : undefined,
+          text,
+          log: target.runtime.log,
+        }));
         (core.channel as any)?.activity?.record?.({
           channel: "wecom",
           accountId: account.accountId,
@@ -820,8 +870,9 @@ async function processAppMessage(params: {
   target: WecomWebhookTarget;
   decryptedXml: string;
   msgObj: Record<string, any>;
+  passive?: PassiveReplySink;
 }): Promise<void> {
-  const { target, msgObj } = params;
+  const { target, msgObj, passive } = params;
   const msgType = String(msgObj?.MsgType ?? "").toLowerCase();
   const fromUser = String(msgObj?.FromUserName ?? "");
   const chatId = msgObj?.ChatId ? String(msgObj.ChatId) : "";
@@ -830,13 +881,57 @@ async function processAppMessage(params: {
   logVerbose(target, `app inbound: MsgType=${msgType} From=${fromUser} ChatId=${chatId || "N/A"} Content=${summary}`);
 
   if (!fromUser) return;
+  if (isGroup) {
+    // Remember the chat so outbound `group:` targets can be checked and listed.
+    void recordWecomChat({ account: target.account, chatId, source: "inbound" }).catch(() => {});
+  }
+
+  // Card clicks are forwarded to the agent, so they pass the same access checks as messages;
+  // other events (enter_agent, change_contact, ...) never reach the agent.
+  const isCardEvent = msgType === "event" && String(msgObj?.Event ?? "").toLowerCase() === "template_card_event";
+  const reachesAgent = msgType !== "event" || isCardEvent;
+
+  let group: WecomGroupDecision | null = null;
+  if (isGroup && reachesAgent) {
+    group = await evaluateWecomGroupMessage({
+      account: target.account,
+      chatId,
+      senderId: fromUser,
+      text: String(msgObj?.Content ?? msgObj?.Recognition ?? ""),
+      // Clicking the app's card addresses the app like a mention does.
+      mentionedByPlatform: isCardEvent,
+      log: target.runtime.log,
+    });
+    if (!group.allowed) {
+      logVerbose(target, `app group message ignored (chatId=${chatId}, ${group.reason})`);
+      return;
+    }
+  }
+
+  if (!isGroup && reachesAgent) {
+    let core: PluginRuntime | null = null;
+    try {
+      core = getWecomRuntime();
+    } catch {
+      core = null;
+    }
+    const dm = await evaluateWecomDmAccess({ account: target.account, core, senderId: fromUser, log: target.runtime.log });
+    if (!dm.allowed) {
+      logVerbose(target, `app direct message blocked (from=${fromUser}, ${dm.reason})`);
+      if (dm.reply) {
+        await sendWecomText({ account: target.account, toUser: fromUser, text: dm.reply }).catch((err) => {
+          target.runtime.error?.(`wecom pairing reply failed for ${fromUser}: ${String(err)}`);
+        });
+      }
+      return;
+    }
+  }
 
   let messageText = "";
-  const retentionMs = resolveMediaRetentionMs(target);
   let mediaContext: { type: "image" | "voice" | "video" | "file"; path: string; mimeType?: string; url?: string } | null = null;
 
   if (msgType === "text") {
-    messageText = String(msgObj?.Content ?? "");
+    messageText = group ? group.text : String(msgObj?.Content ?? "");
   }
 
   if (msgType === "voice") {
@@ -848,7 +943,7 @@ async function processAppMessage(params: {
       if (mediaId) {
         try {
           const cacheKey = buildMediaCacheKey({ mediaId });
-          const cached = await getCachedMedia(cacheKey, retentionMs);
+          const cached = await getCachedMedia(target, cacheKey);
           if (cached) {
             mediaContext = { type: cached.type, path: cached.path, mimeType: cached.mimeType, url: cached.url };
             logVerbose(target, `app voice cache hit: ${cached.path}`);
@@ -866,12 +961,13 @@ async function processAppMessage(params: {
                 tempDir,
                 target.account.config.media?.retentionHours,
                 target.account.config.media?.cleanupOnStart,
+                isWecomReadOnlyPath(target.account, tempDir),
               );
               const tempVoicePath = join(tempDir, `voice-${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`);
               await writeFile(tempVoicePath, media.buffer);
               const mimeType = media.contentType || "audio/amr";
               mediaContext = { type: "voice", path: tempVoicePath, mimeType };
-              storeCachedMedia(cacheKey, {
+              await storeCachedMedia(target, cacheKey, {
                 path: tempVoicePath,
                 type: "voice",
                 mimeType,
@@ -906,7 +1002,7 @@ async function processAppMessage(params: {
     const maxBytes = resolveMediaMaxBytes(target);
     try {
       const cacheKey = buildMediaCacheKey({ mediaId, url: picUrl });
-      const cached = await getCachedMedia(cacheKey, retentionMs);
+      const cached = await getCachedMedia(target, cacheKey);
       if (cached) {
         mediaContext = { type: cached.type, path: cached.path, mimeType: cached.mimeType, url: cached.url };
         logVerbose(target, `app image cache hit: ${cached.path}`);
@@ -940,6 +1036,7 @@ async function processAppMessage(params: {
               tempDir,
               target.account.config.media?.retentionHours,
               target.account.config.media?.cleanupOnStart,
+              isWecomReadOnlyPath(target.account, tempDir),
             );
             const tempImagePath = join(tempDir, `image-${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`);
             await writeFile(tempImagePath, buffer);
@@ -951,7 +1048,7 @@ async function processAppMessage(params: {
               ? await describeImageWithVision({ config: visionConfig, buffer, mimeType })
               : null;
 
-            storeCachedMedia(cacheKey, {
+            await storeCachedMedia(target, cacheKey, {
               path: tempImagePath,
               type: "image",
               mimeType,
@@ -999,7 +1096,7 @@ async function processAppMessage(params: {
     if (mediaId) {
       try {
         const cacheKey = buildMediaCacheKey({ mediaId });
-        const cached = await getCachedMedia(cacheKey, retentionMs);
+        const cached = await getCachedMedia(target, cacheKey);
         if (cached) {
           mediaContext = { type: cached.type, path: cached.path, mimeType: cached.mimeType, url: cached.url };
           logVerbose(target, `app video cache hit: ${cached.path}`);
@@ -1017,12 +1114,13 @@ async function processAppMessage(params: {
               tempDir,
               target.account.config.media?.retentionHours,
               target.account.config.media?.cleanupOnStart,
+              isWecomReadOnlyPath(target.account, tempDir),
             );
             const tempVideoPath = join(tempDir, `video-${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`);
             await writeFile(tempVideoPath, media.buffer);
             const mimeType = media.contentType || "video/mp4";
             mediaContext = { type: "video", path: tempVideoPath, mimeType };
-            storeCachedMedia(cacheKey, {
+            await storeCachedMedia(target, cacheKey, {
               path: tempVideoPath,
               type: "video",
               mimeType,
@@ -1058,7 +1156,7 @@ async function processAppMessage(params: {
     if (mediaId) {
       try {
         const cacheKey = buildMediaCacheKey({ mediaId });
-        const cached = await getCachedMedia(cacheKey, retentionMs);
+        const cached = await getCachedMedia(target, cacheKey);
         if (cached) {
           mediaContext = { type: cached.type, path: cached.path, mimeType: cached.mimeType, url: cached.url };
           logVerbose(target, `app file cache hit: ${cached.path}`);
@@ -1083,13 +1181,14 @@ async function processAppMessage(params: {
               tempDir,
               target.account.config.media?.retentionHours,
               target.account.config.media?.cleanupOnStart,
+              isWecomReadOnlyPath(target.account, tempDir),
             );
             const safeName = sanitizeFilename(fileName, `file-${Date.now()}.${ext}`);
             const tempFilePath = join(tempDir, safeName);
             await writeFile(tempFilePath, media.buffer);
             const mimeType = media.contentType || "application/octet-stream";
             mediaContext = { type: "file", path: tempFilePath, mimeType };
-            storeCachedMedia(cacheKey, {
+            await storeCachedMedia(target, cacheKey, {
               path: tempFilePath,
               type: "file",
               mimeType,
@@ -1115,12 +1214,38 @@ async function processAppMessage(params: {
     }
   }
 
+  if (msgType === "event") {
+    const eventType = String(msgObj?.Event ?? "").toLowerCase();
+    if (eventType === "change_contact") {
+      const changeType = await applyWecomContactChange({ account: target.account, msgObj });
+      logVerbose(target, `app change_contact applied: ${changeType || "unknown"}`);
+      return;
+    }
+    if (WELCOME_EVENTS.has(eventType)) {
+      const welcome = target.account.config.welcomeText?.trim();
+      if (!welcome) return;
+      if (passive?.offer(welcome)) {
+        logVerbose(target, `app event ${eventType} welcome queued as passive response`);
+        return;
+      }
+      await sendWecomText({ account: target.account, toUser: fromUser, text: welcome });
+      target.statusSink?.({ lastOutboundAt: Date.now() });
+      logVerbose(target, `app event ${eventType} welcome sent to ${fromUser}`);
+      return;
+    }
+    if (eventType === "template_card_event") {
+      const cardEvent = parseTemplateCardEvent(msgObj);
+      messageText = describeTemplateCardEvent(cardEvent);
+      await markTemplateCardProcessed({ target, fromUser, event: cardEvent });
+    }
+  }
+
   if (!messageText) {
     return;
   }
 
   if (msgType === "text" && isTextCommand(messageText)) {
-    const handled = await handleCommand(messageText, {
+    const outcome = await handleCommand(messageText, {
       account: target.account,
       fromUser,
       chatId,
@@ -1128,10 +1253,15 @@ async function processAppMessage(params: {
       cfg: target.config,
       log: target.runtime.log,
       statusSink: target.statusSink,
+      passiveReply: passive,
     });
-    if (handled) return;
+    if (outcome.handled) return;
+    if (outcome.prompt) messageText = outcome.prompt;
   }
 
+  // Everything below may take long; let the callback response go out now.
+  passive?.release();
+
   if (msgType === "text") {
     const handled = await tryHandleNaturalFileSend({
       target,
@@ -1151,6 +1281,7 @@ async function processAppMessage(params: {
       isGroup,
       messageText,
       media: mediaContext,
+      group,
     });
   } catch (err) {
     target.runtime.error?.(`wecom app agent failed: ${String(err)}`);
@@ -1168,6 +1299,7 @@ async function processAppMessage(params: {
 }
 
 type PushMessage = {
+  type?: "text" | WecomRichMessageType;
   text?: string;
   mediaUrl?: string;
   mediaPath?: string;
@@ -1176,6 +1308,9 @@ type PushMessage = {
   filename?: string;
   title?: string;
   description?: string;
+  url?: string;
+  btntxt?: string;
+  articles?: Array<Record<string, unknown>>;
   delayMs?: number;
 };
 
@@ -1183,11 +1318,53 @@ type PushPayload = PushMessage & {
   accountId?: string;
   toUser?: string;
   chatId?: string;
+  toUsers?: string[] | string;
+  toParty?: string;
+  toParties?: string[] | string;
+  toTag?: string;
+  toTags?: string[] | string;
+  /** Send to every member visible to the app (`@all`). */
+  all?: boolean;
   token?: string;
   intervalMs?: number;
   messages?: PushMessage[];
 };
 
+/**
+ * Accepts an array or an `a|b` / `a,b` string.
+ */
+function toIdList(...values: unknown[]): string[] {
+  const ids: string[] = [];
+  for (const value of values) {
+    const items = Array.isArray(value) ? value : typeof value === "string" || typeof value === "number" ? [value] : [];
+    for (const item of items) {
+      ids.push(...String(item).split(/[|,]/).map((id) => id.trim()).filter(Boolean));
+    }
+  }
+  return Array.from(new Set(ids));
+}
+
+function resolvePushRichMessage(message: PushMessage) {
+  if (message.type === "textcard") {
+    return normalizeWecomRichMessage({
+      textcard: { title: message.title, description: message.description ?? message.text, url: message.url, btntxt: message.btntxt },
+    });
+  }
+  if (message.type === "news" || message.type === "mpnews") {
+    return normalizeWecomRichMessage({ [message.type]: { articles: message.articles } });
+  }
+  return null;
+}
+
+function isPassiveCandidate(target: WecomWebhookTarget, msgObj: Record<string, any>): boolean {
+  if (!isPassiveReplyEnabled(target.account)) return false;
+  if (msgObj?.ChatId || !msgObj?.FromUserName) return false;
+  const msgType = String(msgObj?.MsgType ?? "").toLowerCase();
+  if (msgType === "text") return isTextCommand(String(msgObj?.Content ?? ""));
+  if (msgType === "event") return WELCOME_EVENTS.has(String(msgObj?.Event ?? "").toLowerCase());
+  return false;
+}
+
 function resolvePushToken(target: WecomWebhookTarget): string {
   return target.account.config.pushToken?.trim() || "";
 }
@@ -1245,14 +1422,36 @@ export async function handleWecomPushRequest(params: {
     return true;
   }
 
-  const toUser = pickFirstString(payload?.toUser, url.searchParams.get("toUser"));
   const chatId = pickFirstString(payload?.chatId, url.searchParams.get("chatId"));
-  if (!toUser && !chatId) {
+  const toUsers = toIdList(payload?.toUser, payload?.toUsers, url.searchParams.get("toUser"));
+  const toParties = toIdList(payload?.toParty, payload?.toParties, url.searchParams.get("toParty"));
+  const toTags = toIdList(payload?.toTag, payload?.toTags, url.searchParams.get("toTag"));
+  const all = payload?.all === true || url.searchParams.get("all") === "1" || url.searchParams.get("all") === "true";
+  if (!chatId && !all && toUsers.length === 0 && toParties.length === 0 && toTags.length === 0) {
     res.statusCode = 400;
     res.setHeader("Content-Type", "application/json; charset=utf-8");
-    res.end(JSON.stringify({ ok: false, error: "Missing toUser or chatId" }));
+    res.end(JSON.stringify({ ok: false, error: "Missing toUser, toParty, toTag, all or chatId" }));
     return true;
   }
+  const recipient: WecomRecipient = chatId
+    ? { toUser: "", chatId }
+    : { toUser: "", toUsers, toParties, toTags, all };
+  // Operation log fields, in the same `a|b` form WeCom uses.
+  const logRecipient = chatId
+    ? { chatId }
+    : all
+      ? { toUser: "@all" }
+      : {
+        ...(toUsers.length > 0 ? { toUser: toUsers.join("|") } : {}),
+        ...(toParties.length > 0 ? { toParty: toParties.join("|") } : {}),
+        ...(toTags.length > 0 ? { toTag: toTags.join("|") } : {}),
+      };
+  const rejected = new Map<string, WecomRejectedRecipient>();
+  const trackRejected = (result: WecomSendResult) => {
+    for (const item of listWecomRejectedRecipients(result)) {
+      rejected.set(`${item.kind}:${item.id}`, item);
+    }
+  };
 
   if (!target.account.corpId || !target.account.corpSecret || !target.account.agentId) {
     res.statusCode = 500;
@@ -1272,6 +1471,30 @@ export async function handleWecomPushRequest(params: {
       await sleep(message.delayMs);
     }
     try {
+      if (message.type && message.type !== "text") {
+        const richMessage = resolvePushRichMessage(message);
+        if (!richMessage) {
+          target.runtime.error?.(`wecom push skipped invalid ${message.type} message`);
+        } else {
+          trackRejected(await sendWecomRichMessage({
+            account: target.account,
+            ...recipient,
+            message: richMessage,
+            log: target.runtime.log,
+          }));
+          await appendOperationLog(target, {
+            action: `push-${richMessage.type}`,
+            accountId: target.account.accountId,
+            ...logRecipient,
+          });
+          sent += 1;
+        }
+        if (intervalMs) {
+          await sleep(intervalMs);
+        }
+        continue;
+      }
+
       const outbound = await loadOutboundMedia({
         payload: message,
         account: target.account,
@@ -1285,26 +1508,24 @@ export async function handleWecomPushRequest(params: {
           filename: outbound.filename,
         });
         if (outbound.type === "image") {
-          await sendWecomImage({ account: target.account, toUser, chatId: chatId || undefined, mediaId });
+          trackRejected(await sendWecomImage({ account: target.account, ...recipient, mediaId }));
         } else if (outbound.type === "voice") {
-          await sendWecomVoice({ account: target.account, toUser, chatId: chatId || undefined, mediaId });
+          trackRejected(await sendWecomVoice({ account: target.account, ...recipient, mediaId }));
         } else if (outbound.type === "video") {
-          await sendWecomVideo({
+          trackRejected(await sendWecomVideo({
             account: target.account,
-            toUser,
-            chatId: chatId || undefined,
+            ...recipient,
             mediaId,
             title: message.title,
             description: message.description,
-          });
+          }));
         } else {
-          await sendWecomFile({ account: target.account, toUser, chatId: chatId || undefined, mediaId });
+          trackRejected(await sendWecomFile({ account: target.account, ...recipient, mediaId }));
         }
         await appendOperationLog(target, {
           action: "push-media",
           accountId: target.account.accountId,
-          toUser,
-          chatId: chatId || undefined,
+          ...logRecipient,
           mediaType: outbound.type,
           filename: outbound.filename,
         });
@@ -1313,12 +1534,11 @@ export async function handleWecomPushRequest(params: {
 
       const text = markdownToWecomText(message.text ?? "");
       if (text) {
-        await sendWecomText({ account: target.account, toUser, chatId: chatId || undefined, text });
+        trackRejected(await sendWecomText({ account: target.account, ...recipient, text }));
         await appendOperationLog(target, {
           action: "push-text",
           accountId: target.account.accountId,
-          toUser,
-          chatId: chatId || undefined,
+          ...logRecipient,
           textPreview: text.slice(0, 120),
         });
         sent += 1;
@@ -1335,7 +1555,11 @@ export async function handleWecomPushRequest(params: {
   target.statusSink?.({ lastOutboundAt: Date.now() });
   res.statusCode = 200;
   res.setHeader("Content-Type", "application/json; charset=utf-8");
-  res.end(JSON.stringify({ ok: true, sent }));
+  res.end(JSON.stringify({
+    ok: true,
+    sent,
+    ...(rejected.size > 0 ? { rejected: Array.from(rejected.values()) } : {}),
+  }));
   return true;
 }
 
@@ -1451,9 +1675,11 @@ export async function handleWecomAppWebhook(params: {
     return true;
   }
 
-  res.statusCode = 200;
-  res.setHeader("Content-Type", "text/plain; charset=utf-8");
-  res.end("success");
+  const replySuccess = () => {
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.end("success");
+  };
 
   let decryptedXml = "";
   try {
@@ -1463,6 +1689,7 @@ export async function handleWecomAppWebhook(params: {
       encrypt,
     });
   } catch (err) {
+    replySuccess();
     const msg = err instanceof Error ? err.message : String(err);
     target.runtime.error?.(`wecom app decrypt failed: ${msg}`);
     return true;
@@ -1472,15 +1699,71 @@ export async function handleWecomAppWebhook(params: {
   try {
     msgObj = parseIncomingXml(decryptedXml);
   } catch (err) {
+    replySuccess();
     target.runtime.error?.(`wecom app parse xml failed: ${String(err)}`);
     return true;
   }
 
   target.statusSink?.({ lastInboundAt: Date.now() });
 
-  processAppMessage({ target, decryptedXml, msgObj }).catch((err) => {
+  const dedupeKey = buildAppDedupeKey(msgObj);
+  if (dedupeKey && isDuplicateAppCallback(dedupeKey)) {
+    replySuccess();
+    const dedupeStats = getWecomAppDedupeStats();
+    logVerbose(
+      target,
+      `app duplicate callback skipped: ${dedupeKey} (duplicates=${dedupeStats.duplicates}/${dedupeStats.checked})`,
+    );
+    return true;
+  }
+
+  if (!isPassiveCandidate(target, msgObj)) {
+    replySuccess();
+    processAppMessage({ target, decryptedXml, msgObj }).catch((err) => {
+      target.runtime.error?.(`wecom app async processing failed: ${String(err)}`);
+    });
+    return true;
+  }
+
+  const passive = createPassiveReplySink();
+  const processing = processAppMessage({ target, decryptedXml, msgObj, passive: passive.sink }).catch((err) => {
     target.runtime.error?.(`wecom app async processing failed: ${String(err)}`);
   });
+  const budgetMs = resolvePassiveReplyTimeoutMs(target.account);
+  let budgetTimer: ReturnType<typeof setTimeout> | null = null;
+  const budget = new Promise<"timeout">((resolve) => {
+    budgetTimer = setTimeout(() => resolve("timeout"), budgetMs);
+  });
+  const outcome = await Promise.race([processing.then(() => "done" as const), passive.released.then(() => "released" as const), budget]);
+  if (budgetTimer) clearTimeout(budgetTimer);
+  if (outcome === "timeout") {
+    logVerbose(target, `app passive reply budget (${budgetMs}ms) exceeded, continuing via message/send`);
+  }
 
+  const fromUser = String(msgObj?.FromUserName ?? "");
+  const text = passive.close().join("\n\n");
+  if (!text) {
+    replySuccess();
+    return true;
+  }
+  if (fitsPassiveReply(text)) {
+    try {
+      const body = buildWecomPassiveTextReply({ account: target.account, toUser: fromUser, text, nonce });
+      res.statusCode = 200;
+      res.setHeader("Content-Type", "application/xml; charset=utf-8");
+      res.end(body);
+      target.statusSink?.({ lastOutboundAt: Date.now() });
+      logVerbose(target, `app passive reply sent to ${fromUser}`);
+      return true;
+    } catch (err) {
+      target.runtime.error?.(`wecom app passive reply failed, falling back to message/send: ${String(err)}`);
+    }
+  }
+  replySuccess();
+  sendWecomText({ account: target.account, toUser: fromUser, text })
+    .then(() => target.statusSink?.({ lastOutboundAt: Date.now() }))
+    .catch((err) => {
+      target.runtime.error?.(`wecom app reply failed: ${String(err)}`);
+    });
   return true;
 }
@@ -1,7 +1,7 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
 import crypto from "node:crypto";
-import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
-import { basename, extname, join } from "node:path";
+import { mkdir, stat, writeFile } from "node:fs/promises";
+import { basename, join } from "node:path";
 
 import type { PluginRuntime } from "openclaw/plugin-sdk";
 
@@ -25,7 +25,21 @@ import {
   uploadWecomMedia,
 } from "./wecom-api.js";
 import { getWecomRuntime } from "./runtime.js";
+import { formatWecomContactLabel, resolveWecomContact } from "./directory.js";
+import { evaluateWecomGroupMessage, stripWecomMention, withWecomGroupAgentBinding } from "./group-policy.js";
+import { handleCommand, isWecomCommand } from "./commands.js";
+import { evaluateWecomDmAccess } from "./dm-policy.js";
+import { isWecomReadOnlyPath } from "./file-roots.js";
+import {
+  describeTemplateCardEvent,
+  parseTemplateCardReply,
+  templateCardToText,
+  validateWecomTemplateCard,
+} from "./template-card.js";
 import { describeImageWithVision, resolveVisionConfig } from "./media-vision.js";
+import { fetchWithWecomProxy } from "./network.js";
+import { createMemoryStateStore, getWecomStateStore } from "./state-store.js";
+import type { WecomStateStore } from "./state-store.js";
 import {
   extractFileTextPreview,
   resolveAutoAudioConfig,
@@ -36,6 +50,7 @@ import {
 } from "./media-auto.js";
 import {
   cleanupMediaDir,
+  loadOutboundMedia,
   resolveExtFromContentType,
   resolveMediaMaxBytes,
   resolveMediaRetentionMs,
@@ -49,8 +64,16 @@ const STREAM_MAX_ENTRIES = 500;
 const DEDUPE_TTL_MS = 2 * 60 * 1000;
 const DEDUPE_MAX_ENTRIES = 2_000;
 const MEDIA_CACHE_MAX_ENTRIES = 200;
+// Media cache entries live as long as media.retentionHours, or this long without it.
+const MEDIA_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+// A stream owned by another process that stopped updating for this long is reported finished.
+const STREAM_ORPHAN_MS = 5 * 60 * 1000;
 
-const mediaCache = new Map<string, { entry: InboundMedia; createdAt: number; size: number; summary?: string }>();
+// State store namespaces; see state-store.ts.
+const STREAM_NAMESPACE = "bot-stream";
+const MSGID_NAMESPACE = "bot-msgid";
+const DEDUPE_NAMESPACE = "bot-dedupe";
+const MEDIA_NAMESPACE = "bot-media";
 
 type StreamState = {
   streamId: string;
@@ -76,9 +99,37 @@ type InboundBody = {
   media?: InboundMedia;
 };
 
+type MediaCacheEntry = { entry: InboundMedia; createdAt: number; size: number; summary?: string };
+type DedupeEntry = { ts: number; streamId?: string };
+
+// Streams run by this process; the state store holds a copy for other replicas.
 const streams = new Map<string, StreamState>();
-const msgidToStreamId = new Map<string, string>();
-const recentEncrypts = new Map<string, { ts: number; streamId?: string }>();
+// Used when the configured state store fails (SQLITE_BUSY, I/O errors), so the callback is
+// still answered instead of left for WeCom to retry.
+const fallbackStore = createMemoryStateStore();
+
+/**
+ * The account's state store with failures logged and served from `fallbackStore`.
+ */
+function getBotStateStore(account: ResolvedWecomAccount, log?: (message: string) => void): WecomStateStore {
+  const store = getWecomStateStore(account, log);
+  const guard = async <T>(operation: string, run: () => Promise<T>, fallback: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (err) {
+      log?.(`[wecom] state store ${operation} failed, using process-local state: ${String(err)}`);
+      return await fallback();
+    }
+  };
+  return {
+    get: (namespace, key) =>
+      guard(`get ${namespace}`, () => store.get(namespace, key), () => fallbackStore.get(namespace, key)),
+    set: (namespace, key, value, options) =>
+      guard(`set ${namespace}`, () => store.set(namespace, key, value, options), () => fallbackStore.set(namespace, key, value, options)),
+    delete: (namespace, key) =>
+      guard(`delete ${namespace}`, () => store.delete(namespace, key), () => fallbackStore.delete(namespace, key)),
+  };
+}
 
 function pruneStreams(): void {
   const cutoff = Date.now() - STREAM_TTL_MS;
@@ -87,18 +138,6 @@ function pruneStreams(): void {
       streams.delete(id);
     }
   }
-  for (const [msgid, id] of msgidToStreamId.entries()) {
-    if (!streams.has(id)) {
-      msgidToStreamId.delete(msgid);
-    }
-  }
-
-  const dedupeCutoff = Date.now() - DEDUPE_TTL_MS;
-  for (const [hash, entry] of recentEncrypts.entries()) {
-    if (entry.ts < dedupeCutoff) {
-      recentEncrypts.delete(hash);
-    }
-  }
 
   if (streams.size > STREAM_MAX_ENTRIES) {
     const sorted = Array.from(streams.entries()).sort((a, b) => a[1].updatedAt - b[1].updatedAt);
@@ -108,14 +147,34 @@ function pruneStreams(): void {
       streams.delete(streamId);
     }
   }
+}
 
-  if (recentEncrypts.size > DEDUPE_MAX_ENTRIES) {
-    const sorted = Array.from(recentEncrypts.entries()).sort((a, b) => a[1].ts - b[1].ts);
-    const overflow = sorted.length - DEDUPE_MAX_ENTRIES;
-    for (let i = 0; i < overflow; i += 1) {
-      recentEncrypts.delete(sorted[i]![0]);
-    }
+/**
+ * Bumps `updatedAt` and writes the stream to the state store, so a stream refresh that
+ * reaches another replica can still be answered.
+ */
+function touchStream(account: ResolvedWecomAccount, state: StreamState): void {
+  state.updatedAt = Date.now();
+  void getBotStateStore(account).set(STREAM_NAMESPACE, state.streamId, state, {
+    ttlMs: STREAM_TTL_MS,
+    maxEntries: STREAM_MAX_ENTRIES,
+  });
+}
+
+function registerStream(account: ResolvedWecomAccount, state: StreamState): void {
+  streams.set(state.streamId, state);
+  touchStream(account, state);
+}
+
+async function loadStream(account: ResolvedWecomAccount, streamId: string): Promise<StreamState | undefined> {
+  const local = streams.get(streamId);
+  if (local) return local;
+  const stored = await getBotStateStore(account).get<StreamState>(STREAM_NAMESPACE, streamId);
+  // The owning process likely went away mid-reply; stop WeCom from polling forever.
+  if (stored && !stored.finished && Date.now() - stored.updatedAt > STREAM_ORPHAN_MS) {
+    return { ...stored, finished: true };
   }
+  return stored;
 }
 
 function truncateUtf8Bytes(text: string, maxBytes: number): string {
@@ -291,6 +350,46 @@ async function waitForStreamContent(streamId: string, maxWaitMs: number): Promis
   });
 }
 
+/**
+ * Runs a slash command and writes its replies into the stream. Prompt-template commands
+ * continue on the agent path with the expanded prompt.
+ */
+async function runCommandForStream(params: {
+  target: WecomWebhookTarget;
+  msg: WecomInboundMessage;
+  text: string;
+  streamId: string;
+}): Promise<void> {
+  const { target, msg, text, streamId } = params;
+  const isGroup = msg.chattype === "group";
+  const outcome = await handleCommand(text, {
+    account: target.account,
+    fromUser: msg.from?.userid?.trim() || "unknown",
+    chatId: isGroup ? (msg.chatid?.trim() || "unknown") : undefined,
+    isGroup,
+    cfg: target.config,
+    log: target.runtime.log,
+    statusSink: target.statusSink,
+    reply: (reply) => {
+      const state = streams.get(streamId);
+      if (!state) return;
+      state.content = state.content ? `${state.content}\n\n${reply}` : reply;
+      touchStream(target.account, state);
+    },
+  });
+  if (outcome.prompt) {
+    const core = getWecomRuntime();
+    const promptMsg = { ...msg, msgtype: "text", text: { content: outcome.prompt } } as WecomInboundMessage;
+    await startAgentForStream({ target: { ...target, core }, accountId: target.account.accountId, msg: promptMsg, streamId });
+    return;
+  }
+  const state = streams.get(streamId);
+  if (state) {
+    state.finished = true;
+    touchStream(target.account, state);
+  }
+}
+
 async function startAgentForStream(params: {
   target: WecomWebhookTarget;
   accountId: string;
@@ -306,10 +405,23 @@ async function startAgentForStream(params: {
   const chatType = msg.chattype === "group" ? "group" : "direct";
   const chatId = msg.chattype === "group" ? (msg.chatid?.trim() || "unknown") : userid;
   const inbound = await buildInboundBody({ target, msg });
-  const rawBody = inbound.text;
+  // Group callbacks only arrive when the bot is @-mentioned.
+  const group = chatType === "group"
+    ? await evaluateWecomGroupMessage({
+      account,
+      chatId,
+      senderId: userid,
+      text: inbound.text,
+      mentionedByPlatform: true,
+      log: target.runtime.log,
+    })
+    : null;
+  const rawBody = group ? group.text : inbound.text;
 
   const route = core.channel.routing.resolveAgentRoute({
-    cfg: config,
+    cfg: group
+      ? withWecomGroupAgentBinding({ cfg: config, accountId: account.accountId, chatId, agentId: group.agentId })
+      : config,
     channel: "wecom",
     accountId: account.accountId,
     peer: { kind: chatType === "group" ? "group" : "dm", id: chatId },
@@ -318,6 +430,7 @@ async function startAgentForStream(params: {
   logVerbose(target, `starting agent processing (streamId=${streamId}, agentId=${route.agentId}, peerKind=${chatType}, peerId=${chatId})`);
 
   const fromLabel = chatType === "group" ? `group:${chatId}` : `user:${userid}`;
+  const contact = await resolveWecomContact({ account, userId: userid, log: target.runtime.log });
   const storePath = core.channel.session.resolveStorePath(config.session?.store, {
     agentId: route.agentId,
   });
@@ -328,7 +441,7 @@ async function startAgentForStream(params: {
   });
   const body = core.channel.reply.formatAgentEnvelope({
     channel: "WeCom",
-    from: fromLabel,
+    from: chatType === "group" ? fromLabel : formatWecomContactLabel(contact),
     previousTimestamp,
     envelope: envelopeOptions,
     body: rawBody,
@@ -344,8 +457,9 @@ async function startAgentForStream(params: {
     AccountId: route.accountId,
     ChatType: chatType,
     ConversationLabel: fromLabel,
-    SenderName: userid,
+    SenderName: contact.name,
     SenderId: userid,
+    WasMentioned: group ? true : undefined,
     Provider: "wecom",
     Surface: "wecom",
     MessageSid: msg.msgid,
@@ -353,6 +467,13 @@ async function startAgentForStream(params: {
     OriginatingTo: `wecom:${chatId}`,
   });
 
+  if (contact.departments.length > 0) {
+    (ctxPayload as any).SenderDepartment = contact.departments.join("、");
+  }
+  if (contact.position) {
+    (ctxPayload as any).SenderPosition = contact.position;
+  }
+
   if (inbound.media) {
     ctxPayload.MediaPath = inbound.media.path;
     ctxPayload.MediaType = inbound.media.type;
@@ -418,7 +539,7 @@ async function startAgentForStream(params: {
               const note = mediaSentLabel(outbound.type);
               const nextText = current.content ? `${current.content}\n\n${note}` : note;
               current.content = truncateUtf8Bytes(nextText.trim(), STREAM_MAX_BYTES);
-              current.updatedAt = Date.now();
+              touchStream(account, current);
             }
             target.statusSink?.({ lastOutboundAt: Date.now() });
             }
@@ -431,35 +552,26 @@ async function startAgentForStream(params: {
         const current = streams.get(streamId);
         if (!current) return;
 
-        const trimmedText = text.trim();
-        if (trimmedText.startsWith("{") && trimmedText.includes("\"template_card\"")) {
-          try {
-            const parsed = JSON.parse(trimmedText) as { template_card?: Record<string, unknown> };
-            if (parsed.template_card) {
-              const isSingleChat = chatType !== "group";
-              const responseUrl = current.responseUrl;
-              if (isSingleChat && responseUrl) {
-                await fetch(responseUrl, {
-                  method: "POST",
-                  headers: { "Content-Type": "application/json" },
-                  body: JSON.stringify({ msgtype: "template_card", template_card: parsed.template_card }),
-                });
-                current.finished = true;
-                current.content = current.content || "[已发送交互卡片]";
-                current.updatedAt = Date.now();
-                target.statusSink?.({ lastOutboundAt: Date.now() });
-                return;
-              }
-              const cardTitle = (parsed.template_card as any)?.main_title?.title || "交互卡片";
-              const cardDesc = (parsed.template_card as any)?.main_title?.desc || "";
-              const buttons = Array.isArray((parsed.template_card as any)?.button_list)
-                ? (parsed.template_card as any).button_list.map((b: any) => b?.text).filter(Boolean).join(" / ")
-                : "";
-              text = `【交互卡片】${cardTitle}${cardDesc ? `\n${cardDesc}` : ""}${buttons ? `\n\n选项: ${buttons}` : ""}`;
-            }
-          } catch {
-            // ignore parse failure, treat as normal text
+        const card = parseTemplateCardReply(text);
+        if (card) {
+          const isSingleChat = chatType !== "group";
+          const responseUrl = current.responseUrl;
+          const issues = validateWecomTemplateCard(card);
+          if (issues.length > 0) {
+            target.runtime.log?.(`[wecom] template_card invalid, sending as text: ${issues.join("; ")}`);
+          } else if (isSingleChat && responseUrl) {
+            await fetchWithWecomProxy(account.config.network, responseUrl, {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ msgtype: "template_card", template_card: card }),
+            });
+            current.finished = true;
+            current.content = current.content || "[已发送交互卡片]";
+            touchStream(account, current);
+            target.statusSink?.({ lastOutboundAt: Date.now() });
+            return;
           }
+          text = templateCardToText(card);
         }
 
         text = core.channel.text.convertMarkdownTables(text, tableMode);
@@ -467,7 +579,7 @@ async function startAgentForStream(params: {
           ? `${current.content}\n\n${text}`.trim()
           : text.trim();
         current.content = truncateUtf8Bytes(nextText, STREAM_MAX_BYTES);
-        current.updatedAt = Date.now();
+        touchStream(account, current);
         target.statusSink?.({ lastOutboundAt: Date.now() });
       },
       onError: (err, info) => {
@@ -479,7 +591,7 @@ async function startAgentForStream(params: {
   const current = streams.get(streamId);
   if (current) {
     current.finished = true;
-    current.updatedAt = Date.now();
+    touchStream(account, current);
   }
 }
 
@@ -636,7 +748,7 @@ async function buildBotMediaMessage(params: {
 
   try {
     const cacheKey = buildMediaCacheKey({ url, base64, mediaId });
-    const cached = await getCachedMedia(cacheKey, resolveMediaRetentionMs(target));
+    const cached = await getCachedMedia(target, cacheKey);
     if (cached) {
       if (msgtype === "image" && cached.summary) {
         return {
@@ -716,6 +828,7 @@ async function buildBotMediaMessage(params: {
       tempDir,
       target.account.config.media?.retentionHours,
       target.account.config.media?.cleanupOnStart,
+      isWecomReadOnlyPath(target.account, tempDir),
     );
 
     const fallbackExt = msgtype === "image"
@@ -737,7 +850,7 @@ async function buildBotMediaMessage(params: {
         mimeType: contentType || "application/octet-stream",
         url,
       };
-      storeCachedMedia(cacheKey, media, buffer.length);
+      await storeCachedMedia(target, cacheKey, media, buffer.length);
       const fileCfg = resolveAutoFileConfig(target.account.config);
       const preview = fileCfg
         ? await extractFileTextPreview({ path: tempFilePath, mimeType: media.mimeType, cfg: fileCfg })
@@ -771,7 +884,7 @@ async function buildBotMediaMessage(params: {
           mimeType: media.mimeType || "image/jpeg",
         })
         : null;
-      storeCachedMedia(cacheKey, media, buffer.length, summary ?? undefined);
+      await storeCachedMedia(target, cacheKey, media, buffer.length, summary ?? undefined);
       return {
         text: summary
           ? `[用户发送了一张图片]\n\n[图片识别结果]\n${summary}\n\n请根据识别结果回复用户。`
@@ -786,7 +899,7 @@ async function buildBotMediaMessage(params: {
         mimeType: contentType || "audio/amr",
         url,
       };
-      storeCachedMedia(cacheKey, media, buffer.length);
+      await storeCachedMedia(target, cacheKey, media, buffer.length);
       const audioCfg = resolveAutoAudioConfig(target.account.config);
       const transcript = audioCfg
         ? await transcribeAudioWithOpenAI({ cfg: audioCfg, buffer, mimeType: media.mimeType })
@@ -803,7 +916,7 @@ async function buildBotMediaMessage(params: {
         mimeType: contentType || "video/mp4",
         url,
       };
-      storeCachedMedia(cacheKey, media, buffer.length);
+      await storeCachedMedia(target, cacheKey, media, buffer.length);
       const videoCfg = resolveAutoVideoConfig(target.account.config);
       const summary = videoCfg
         ? await summarizeVideoWithVision({ cfg: videoCfg, account: target.account.config, videoPath: tempPath })
@@ -899,53 +1012,6 @@ async function buildInboundBody(params: { target: WecomWebhookTarget; msg: Wecom
   return { text: msgtype ? `[${msgtype}]` : "" };
 }
 
-function normalizeMediaType(raw?: string): "image" | "voice" | "video" | "file" | null {
-  if (!raw) return null;
-  const value = raw.toLowerCase();
-  if (value === "image" || value === "voice" || value === "video" || value === "file") return value;
-  return null;
-}
-
-function resolveContentTypeFromExt(ext: string): string {
-  const value = ext.toLowerCase();
-  if (value === "png") return "image/png";
-  if (value === "gif") return "image/gif";
-  if (value === "jpg" || value === "jpeg") return "image/jpeg";
-  if (value === "webp") return "image/webp";
-  if (value === "bmp") return "image/bmp";
-  if (value === "amr") return "audio/amr";
-  if (value === "wav") return "audio/wav";
-  if (value === "mp3") return "audio/mpeg";
-  if (value === "m4a") return "audio/mp4";
-  if (value === "mp4") return "video/mp4";
-  if (value === "mov") return "video/quicktime";
-  if (value === "avi") return "video/x-msvideo";
-  if (value === "pdf") return "application/pdf";
-  if (value === "txt") return "text/plain";
-  if (value === "csv") return "text/csv";
-  if (value === "json") return "application/json";
-  if (value === "doc") return "application/msword";
-  if (value === "docx") return "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-  if (value === "xls") return "application/vnd.ms-excel";
-  if (value === "xlsx") return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
-  if (value === "ppt") return "application/vnd.ms-powerpoint";
-  if (value === "pptx") return "application/vnd.openxmlformats-officedocument.presentationml.presentation";
-  if (value === "zip") return "application/zip";
-  return "application/octet-stream";
-}
-
-function resolveMediaTypeFromContentType(contentType: string): "image" | "voice" | "video" | "file" {
-  const value = contentType.toLowerCase();
-  if (value.startsWith("image/")) return "image";
-  if (value.startsWith("audio/")) return "voice";
-  if (value.startsWith("video/")) return "video";
-  return "file";
-}
-
-function stripFileProtocol(rawPath: string): string {
-  return rawPath.startsWith("file://") ? rawPath.replace(/^file:\/\//, "") : rawPath;
-}
-
 function parseBase64Input(input: string): { data: string; mimeType?: string } {
   const match = input.match(/^data:([^;]+);base64,(.*)$/i);
   if (match) {
@@ -954,84 +1020,6 @@ function parseBase64Input(input: string): { data: string; mimeType?: string } {
   return { data: input };
 }
 
-function resolveOutboundMediaSpec(payload: any): {
-  type?: string;
-  url?: string;
-  path?: string;
-  base64?: string;
-  filename?: string;
-  mimeType?: string;
-} | null {
-  if (!payload || typeof payload !== "object") return null;
-  const mediaBlockRaw = payload.media ?? payload.attachment ?? payload.file ?? payload.files;
-  const mediaBlock = Array.isArray(mediaBlockRaw) ? mediaBlockRaw[0] : mediaBlockRaw;
-  const url = pickString(
-    payload.mediaUrl,
-    mediaBlock?.url,
-    mediaBlock?.mediaUrl,
-    mediaBlock?.fileUrl,
-    mediaBlock?.file_url,
-  );
-  const path = pickString(
-    payload.mediaPath,
-    payload.filePath,
-    mediaBlock?.path,
-    mediaBlock?.filePath,
-    mediaBlock?.localPath,
-  );
-  const base64 = pickString(
-    payload.mediaBase64,
-    payload.base64,
-    mediaBlock?.base64,
-    mediaBlock?.data,
-  );
-  const type = pickString(payload.mediaType, mediaBlock?.type, mediaBlock?.mediaType);
-  const filename = pickString(payload.filename, payload.fileName, mediaBlock?.filename, mediaBlock?.fileName, mediaBlock?.name);
-  const mimeType = pickString(payload.mimeType, payload.mediaMimeType, mediaBlock?.mimeType, mediaBlock?.contentType);
-  if (!url && !path && !base64) return null;
-  return { type, url, path, base64, filename, mimeType };
-}
-
-async function loadOutboundMedia(params: {
-  payload: any;
-  account: ResolvedWecomAccount;
-  maxBytes: number | undefined;
-}): Promise<{ buffer: Buffer; contentType: string; type: "image" | "voice" | "video" | "file"; filename: string } | null> {
-  const spec = resolveOutboundMediaSpec(params.payload);
-  if (!spec) return null;
-
-  let buffer: Buffer | null = null;
-  let contentType = spec.mimeType ?? "";
-  let filename = spec.filename ?? "";
-
-  if (spec.base64) {
-    const parsed = parseBase64Input(spec.base64);
-    buffer = Buffer.from(parsed.data, "base64");
-    if (!contentType && parsed.mimeType) contentType = parsed.mimeType;
-  } else if (spec.path) {
-    const resolvedPath = stripFileProtocol(spec.path);
-    buffer = await readFile(resolvedPath);
-    if (!filename) filename = basename(resolvedPath);
-    if (!contentType) {
-      const ext = extname(resolvedPath).replace(".", "");
-      contentType = resolveContentTypeFromExt(ext);
-    }
-  } else if (spec.url) {
-    const media = await fetchMediaFromUrl(spec.url, params.account, params.maxBytes);
-    buffer = media.buffer;
-    if (!contentType) contentType = media.contentType;
-  }
-
-  if (!buffer) return null;
-  if (params.maxBytes && buffer.length > params.maxBytes) return null;
-
-  const type = normalizeMediaType(spec.type) ?? resolveMediaTypeFromContentType(contentType || "application/octet-stream");
-  const ext = resolveExtFromContentType(contentType || "application/octet-stream", type);
-  const safeName = sanitizeFilename(filename, `${type}.${ext}`);
-
-  return { buffer, contentType: contentType || resolveContentTypeFromExt(ext), type, filename: safeName };
-}
-
 function mediaSentLabel(type: string): string {
   if (type === "image") return "[已发送图片]";
   if (type === "voice") return "[已发送语音]";
@@ -1051,40 +1039,37 @@ function buildMediaCacheKey(params: { url?: string; base64?: string; mediaId?: s
   return null;
 }
 
-function pruneMediaCache(): void {
-  if (mediaCache.size <= MEDIA_CACHE_MAX_ENTRIES) return;
-  const entries = Array.from(mediaCache.entries())
-    .sort((a, b) => a[1].createdAt - b[1].createdAt);
-  const excess = entries.length - MEDIA_CACHE_MAX_ENTRIES;
-  for (let i = 0; i < excess; i += 1) {
-    mediaCache.delete(entries[i]![0]);
-  }
-}
-
 async function getCachedMedia(
+  target: WecomWebhookTarget,
   key: string | null,
-  retentionMs?: number,
 ): Promise<{ media: InboundMedia; summary?: string } | null> {
   if (!key) return null;
-  const cached = mediaCache.get(key);
+  const store = getBotStateStore(target.account, target.runtime.log);
+  const cached = await store.get<MediaCacheEntry>(MEDIA_NAMESPACE, key);
   if (!cached) return null;
-  if (retentionMs && Date.now() - cached.createdAt > retentionMs) {
-    mediaCache.delete(key);
-    return null;
-  }
   try {
     await stat(cached.entry.path);
   } catch {
-    mediaCache.delete(key);
+    await store.delete(MEDIA_NAMESPACE, key);
     return null;
   }
   return { media: cached.entry, summary: cached.summary };
 }
 
-function storeCachedMedia(key: string | null, entry: InboundMedia, size: number, summary?: string): void {
+async function storeCachedMedia(
+  target: WecomWebhookTarget,
+  key: string | null,
+  entry: InboundMedia,
+  size: number,
+  summary?: string,
+): Promise<void> {
   if (!key) return;
-  mediaCache.set(key, { entry, createdAt: Date.now(), size, summary });
-  pruneMediaCache();
+  await getBotStateStore(target.account, target.runtime.log).set<MediaCacheEntry>(
+    MEDIA_NAMESPACE,
+    key,
+    { entry, createdAt: Date.now(), size, summary },
+    { ttlMs: resolveMediaRetentionMs(target) ?? MEDIA_CACHE_TTL_MS, maxEntries: MEDIA_CACHE_MAX_ENTRIES },
+  );
 }
 
 function buildInboundMediaPrompt(msgtype: "image" | "voice" | "video" | "file", filename?: string): string {
@@ -1203,11 +1188,13 @@ export async function handleWecomBotWebhook(params: {
     return true;
   }
 
+  const store = getBotStateStore(target.account, target.runtime.log);
+  const dedupeOptions = { ttlMs: DEDUPE_TTL_MS, maxEntries: DEDUPE_MAX_ENTRIES };
   const encryptHash = hashEncryptPayload(encrypt);
-  const dedupeEntry = recentEncrypts.get(encryptHash);
+  const dedupeEntry = await store.get<DedupeEntry>(DEDUPE_NAMESPACE, encryptHash);
   if (dedupeEntry && Date.now() - dedupeEntry.ts <= DEDUPE_TTL_MS) {
     const streamId = dedupeEntry.streamId ?? "";
-    const state = streamId ? streams.get(streamId) : undefined;
+    const state = streamId ? await loadStream(target.account, streamId) : undefined;
     if (streamId && state) {
       const reply = state.error || state.content.trim()
         ? buildStreamReplyFromState(state)
@@ -1219,10 +1206,10 @@ export async function handleWecomBotWebhook(params: {
         nonce,
         timestamp,
       }));
-      dedupeEntry.ts = Date.now();
+      await store.set<DedupeEntry>(DEDUPE_NAMESPACE, encryptHash, { ...dedupeEntry, ts: Date.now() }, dedupeOptions);
       return true;
     }
-    recentEncrypts.delete(encryptHash);
+    await store.delete(DEDUPE_NAMESPACE, encryptHash);
   }
 
   let plain: string;
@@ -1244,7 +1231,7 @@ export async function handleWecomBotWebhook(params: {
 
   if (msgtype === "stream") {
     const streamId = String((msg as any).stream?.id ?? "").trim();
-    const state = streamId ? streams.get(streamId) : undefined;
+    const state = streamId ? await loadStream(target.account, streamId) : undefined;
     const reply = state
       ? buildStreamReplyFromState(state)
       : buildStreamReplyFromState({
@@ -1265,8 +1252,10 @@ export async function handleWecomBotWebhook(params: {
     return true;
   }
 
-  if (msgtype !== "event" && msgid && msgidToStreamId.has(msgid)) {
-    const streamId = msgidToStreamId.get(msgid) ?? "";
+  const streamOptions = { ttlMs: STREAM_TTL_MS, maxEntries: STREAM_MAX_ENTRIES };
+  const existingStreamId = msgid ? await store.get<string>(MSGID_NAMESPACE, msgid) : undefined;
+  if (msgtype !== "event" && existingStreamId) {
+    const streamId = existingStreamId;
     const reply = buildStreamPlaceholderReply(streamId);
     logVerbose(target, `bot stream placeholder reply streamId=${streamId || "unknown"}`);
     jsonOk(res, buildEncryptedJsonReply({
@@ -1278,10 +1267,67 @@ export async function handleWecomBotWebhook(params: {
     return true;
   }
 
+  // Card clicks are forwarded to the agent, so they pass the same access checks as messages;
+  // other events (enter_chat, ...) never reach the agent.
+  const reachesAgent = msgtype !== "event"
+    || String((msg as any).event?.eventtype ?? "").toLowerCase() === "template_card_event";
+  if (reachesAgent && msg.chattype === "group") {
+    const decision = await evaluateWecomGroupMessage({
+      account: target.account,
+      chatId: msg.chatid?.trim() || "unknown",
+      senderId: msg.from?.userid?.trim() || "",
+      text: "",
+      mentionedByPlatform: true,
+      log: target.runtime.log,
+    });
+    if (!decision.allowed) {
+      logVerbose(target, `bot group message ignored (chatId=${msg.chatid || "unknown"}, ${decision.reason})`);
+      jsonOk(res, buildEncryptedJsonReply({
+        account: target.account,
+        plaintextJson: {},
+        nonce,
+        timestamp,
+      }));
+      return true;
+    }
+  }
+
+  if (reachesAgent && msg.chattype !== "group") {
+    let core: PluginRuntime | null = null;
+    try {
+      core = getWecomRuntime();
+    } catch {
+      core = null;
+    }
+    const senderId = msg.from?.userid?.trim() || "";
+    const dm = await evaluateWecomDmAccess({ account: target.account, core, senderId, log: target.runtime.log });
+    if (!dm.allowed) {
+      logVerbose(target, `bot direct message blocked (from=${senderId || "unknown"}, ${dm.reason})`);
+      // Card callbacks expect an empty or card reply; only messages get the pairing text.
+      const reply = dm.reply && msgtype !== "event"
+        ? buildStreamReplyFromState({
+            streamId: createStreamId(),
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+            started: true,
+            finished: true,
+            content: dm.reply,
+          })
+        : {};
+      jsonOk(res, buildEncryptedJsonReply({
+        account: target.account,
+        plaintextJson: reply,
+        nonce,
+        timestamp,
+      }));
+      return true;
+    }
+  }
+
   if (msgtype === "event") {
     const eventtype = String((msg as any).event?.eventtype ?? "").toLowerCase();
     if (eventtype === "template_card_event") {
-      if (msgid && msgidToStreamId.has(msgid)) {
+      if (existingStreamId) {
         jsonOk(res, buildEncryptedJsonReply({
           account: target.account,
           plaintextJson: {},
@@ -1292,19 +1338,17 @@ export async function handleWecomBotWebhook(params: {
       }
 
       const cardEvent = (msg as any).event?.template_card_event;
-      let interactionDesc = `[卡片交互] 按钮: ${cardEvent?.event_key || "unknown"}`;
       const selected = cardEvent?.selected_items?.selected_item;
-      if (Array.isArray(selected) && selected.length > 0) {
-        const selects = selected.map((item: any) => {
-          const key = item?.question_key || "unknown";
-          const options = Array.isArray(item?.option_ids?.option_id)
-            ? item.option_ids.option_id.join(",")
-            : "";
-          return `${key}=${options}`;
-        }).join("; ");
-        if (selects) interactionDesc += ` 选择: ${selects}`;
-      }
-      if (cardEvent?.task_id) interactionDesc += ` (任务ID: ${cardEvent.task_id})`;
+      const interactionDesc = describeTemplateCardEvent({
+        eventKey: cardEvent?.event_key,
+        taskId: cardEvent?.task_id,
+        selected: Array.isArray(selected)
+          ? selected.map((item: any) => ({
+            questionKey: item?.question_key || "unknown",
+            optionIds: Array.isArray(item?.option_ids?.option_id) ? item.option_ids.option_id : [],
+          }))
+          : [],
+      });
 
       jsonOk(res, buildEncryptedJsonReply({
         account: target.account,
@@ -1314,8 +1358,8 @@ export async function handleWecomBotWebhook(params: {
       }));
 
       const streamId = createStreamId();
-      if (msgid) msgidToStreamId.set(msgid, streamId);
-      streams.set(streamId, {
+      if (msgid) await store.set(MSGID_NAMESPACE, msgid, streamId, streamOptions);
+      registerStream(target.account, {
         streamId,
         msgid,
         responseUrl: typeof (msg as any).response_url === "string" ? String((msg as any).response_url).trim() : undefined,
@@ -1325,7 +1369,7 @@ export async function handleWecomBotWebhook(params: {
         finished: false,
         content: "",
       });
-      recentEncrypts.set(encryptHash, { ts: Date.now(), streamId });
+      await store.set<DedupeEntry>(DEDUPE_NAMESPACE, encryptHash, { ts: Date.now(), streamId }, dedupeOptions);
 
       let core: PluginRuntime | null = null;
       try {
@@ -1347,7 +1391,7 @@ export async function handleWecomBotWebhook(params: {
               state.error = err instanceof Error ? err.message : String(err);
               state.content = state.content || `Error: ${state.error}`;
               state.finished = true;
-              state.updatedAt = Date.now();
+              touchStream(target.account, state);
             }
             target.runtime.error?.(`[${target.account.accountId}] wecom agent failed: ${String(err)}`);
           });
@@ -1355,7 +1399,7 @@ export async function handleWecomBotWebhook(params: {
         const state = streams.get(streamId);
         if (state) {
           state.finished = true;
-          state.updatedAt = Date.now();
+          touchStream(target.account, state);
         }
       }
 
@@ -1386,9 +1430,13 @@ export async function handleWecomBotWebhook(params: {
     return true;
   }
 
+  // Group text arrives as "@bot /help"; commands are matched after the mention.
+  const commandText = msgtype === "text" ? stripWecomMention(String((msg as any).text?.content ?? "")).text : "";
+  const isCommand = isWecomCommand(commandText, target.account);
+
   const streamId = createStreamId();
-  if (msgid) msgidToStreamId.set(msgid, streamId);
-  streams.set(streamId, {
+  if (msgid) await store.set(MSGID_NAMESPACE, msgid, streamId, streamOptions);
+  registerStream(target.account, {
     streamId,
     msgid,
     responseUrl: typeof (msg as any).response_url === "string" ? String((msg as any).response_url).trim() : undefined,
@@ -1398,7 +1446,7 @@ export async function handleWecomBotWebhook(params: {
     finished: false,
     content: "",
   });
-  recentEncrypts.set(encryptHash, { ts: Date.now(), streamId });
+  await store.set<DedupeEntry>(DEDUPE_NAMESPACE, encryptHash, { ts: Date.now(), streamId }, dedupeOptions);
 
   let core: PluginRuntime | null = null;
   try {
@@ -1407,7 +1455,20 @@ export async function handleWecomBotWebhook(params: {
     logVerbose(target, `runtime not ready, skipping agent processing: ${String(err)}`);
   }
 
-  if (core) {
+  if (isCommand) {
+    streams.get(streamId)!.started = true;
+    logVerbose(target, `bot command ${commandText.split(/\s+/)[0]} streamId=${streamId}`);
+    runCommandForStream({ target, msg, text: commandText, streamId }).catch((err) => {
+      const state = streams.get(streamId);
+      if (state) {
+        state.error = err instanceof Error ? err.message : String(err);
+        state.content = state.content || `❌ 命令执行失败：${state.error}`;
+        state.finished = true;
+        touchStream(target.account, state);
+      }
+      target.runtime.error?.(`[${target.account.accountId}] wecom bot command failed: ${String(err)}`);
+    });
+  } else if (core) {
     streams.get(streamId)!.started = true;
     const enrichedTarget: WecomWebhookTarget = { ...target, core };
     startAgentForStream({ target: enrichedTarget, accountId: target.account.accountId, msg, streamId }).catch((err) => {
@@ -1416,7 +1477,7 @@ export async function handleWecomBotWebhook(params: {
         state.error = err instanceof Error ? err.message : String(err);
         state.content = state.content || `Error: ${state.error}`;
         state.finished = true;
-        state.updatedAt = Date.now();
+        touchStream(target.account, state);
       }
       target.runtime.error?.(`[${target.account.accountId}] wecom agent failed: ${String(err)}`);
     });
@@ -1424,7 +1485,7 @@ export async function handleWecomBotWebhook(params: {
     const state = streams.get(streamId);
     if (state) {
       state.finished = true;
-      state.updatedAt = Date.now();
+      touchStream(target.account, state);
     }
   }
 